@@ -0,0 +1,143 @@
+import path from "path";
+import fs from "fs/promises";
+import crypto from "crypto";
+import { DATA_DIR } from "./paths.js";
+import { withFileLock } from "./locks.js";
+import { writeFileAtomic } from "./storage.js";
+import type { PublisherScope, Role } from "./auth.js";
+
+export const API_KEYS_FILE = "api-keys.json";
+
+const KEY_PREFIX = "cfg_";
+
+// A named API key. Only the SHA-256 of the key is stored; the key itself is shown once,
+// when it is created or rotated.
+export interface ApiKeyRecord {
+    id: string;
+    name: string;
+    role: Role;
+    // Publishers the key is limited to; without it the role applies to all of them
+    scope?: PublisherScope;
+    hash: string;
+    // First characters of the key, to recognize it in listings
+    prefix: string;
+    createdAt: string;
+    rotatedAt?: string;
+    // Revoked keys are kept so log entries can still be traced to a name
+    revokedAt?: string;
+}
+
+// What the admin endpoints and the CLI show of a key
+export type ApiKeySummary = Omit<ApiKeyRecord, "hash">;
+
+// A key as handed out once on creation or rotation
+export interface IssuedApiKey {
+    key: string;
+    record: ApiKeySummary;
+}
+
+function hashKey(key: string): string {
+    return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+function generateKey(): string {
+    return KEY_PREFIX + crypto.randomBytes(24).toString("base64url");
+}
+
+export function summarizeApiKey({ hash: _hash, ...summary }: ApiKeyRecord): ApiKeySummary {
+    return summary;
+}
+
+// Read the key store. An absent store has no keys.
+export async function readApiKeys(): Promise<ApiKeyRecord[]> {
+    let data: string;
+    try {
+        data = await fs.readFile(path.join(DATA_DIR, API_KEYS_FILE), "utf-8");
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (errorMessage.includes("ENOENT")) {
+            return [];
+        }
+        throw error;
+    }
+
+    let store;
+    try {
+        store = JSON.parse(data);
+    } catch {
+        throw new Error("Failed to read API keys - file may be corrupted");
+    }
+    if (!store || !Array.isArray(store.keys)) {
+        throw new Error(`Invalid ${API_KEYS_FILE} structure`);
+    }
+    return store.keys;
+}
+
+// Read-modify-write the key store under its lock
+async function updateApiKeys<T>(mutate: (keys: ApiKeyRecord[]) => T): Promise<T> {
+    return withFileLock(API_KEYS_FILE, async () => {
+        const keys = await readApiKeys();
+        const result = mutate(keys);
+        await writeFileAtomic(path.join(DATA_DIR, API_KEYS_FILE), JSON.stringify({ keys }, null, 2));
+        return result;
+    });
+}
+
+function findActiveKey(keys: ApiKeyRecord[], id: string): ApiKeyRecord {
+    const record = keys.find(key => key.id === id && !key.revokedAt);
+    if (!record) {
+        throw new Error("API key not found");
+    }
+    return record;
+}
+
+// The active key of `keys` matching `key`, or null
+export function findApiKey(keys: ApiKeyRecord[], key: string): ApiKeyRecord | null {
+    const hash = Buffer.from(hashKey(key), "hex");
+    return keys.find(record =>
+        !record.revokedAt && crypto.timingSafeEqual(Buffer.from(record.hash, "hex"), hash)
+    ) || null;
+}
+
+export async function createApiKey(name: string, role: Role, scope?: PublisherScope): Promise<IssuedApiKey> {
+    const key = generateKey();
+    const record = await updateApiKeys(keys => {
+        if (keys.some(existing => existing.name === name && !existing.revokedAt)) {
+            throw new Error(`API key "${name}" already exists`);
+        }
+        const created: ApiKeyRecord = {
+            id: crypto.randomBytes(6).toString("hex"),
+            name,
+            role,
+            ...(scope && { scope }),
+            hash: hashKey(key),
+            prefix: key.slice(0, KEY_PREFIX.length + 6),
+            createdAt: new Date().toISOString()
+        };
+        keys.push(created);
+        return created;
+    });
+    return { key, record: summarizeApiKey(record) };
+}
+
+// Replace the secret of a key; the previous one stops working immediately
+export async function rotateApiKey(id: string): Promise<IssuedApiKey> {
+    const key = generateKey();
+    const record = await updateApiKeys(keys => {
+        const rotated = findActiveKey(keys, id);
+        rotated.hash = hashKey(key);
+        rotated.prefix = key.slice(0, KEY_PREFIX.length + 6);
+        rotated.rotatedAt = new Date().toISOString();
+        return rotated;
+    });
+    return { key, record: summarizeApiKey(record) };
+}
+
+export async function revokeApiKey(id: string): Promise<ApiKeySummary> {
+    const record = await updateApiKeys(keys => {
+        const revoked = findActiveKey(keys, id);
+        revoked.revokedAt = new Date().toISOString();
+        return revoked;
+    });
+    return summarizeApiKey(record);
+}
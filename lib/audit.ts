@@ -0,0 +1,199 @@
+import path from "path";
+import crypto from "crypto";
+import { ROOT_DIR } from "./paths.js";
+import { computeEtag } from "./etag.js";
+import { diffPublisherConfigs } from "./diff.js";
+import { currentRequestContext } from "./request-context.js";
+import { appendLogFile, listRotatedFiles, logFileOptionsFromEnv, readLogLines } from "./log-files.js";
+import type { ConfigDiff } from "../types/interfaces.js";
+
+// JSON-lines audit log (AUDIT_LOG_FILE), rotated by size (AUDIT_MAX_SIZE_MB) and kept
+// for AUDIT_RETENTION_DAYS (0: forever), gzipped unless AUDIT_COMPRESS=false
+export const AUDIT_LOG_FILE = process.env.AUDIT_LOG_FILE || path.join(ROOT_DIR, "audit.log");
+const AUDIT_OPTIONS = logFileOptionsFromEnv("AUDIT", { maxSize: 10 * 1024 * 1024, retentionDays: 365, compress: true });
+
+export const MAX_AUDIT_RESULTS = 1000;
+const DEFAULT_AUDIT_RESULTS = 100;
+
+// A change made through the API
+export interface AuditEvent {
+    id: string;
+    timestamp: string;
+    requestId?: string;
+    actor: string;
+    keyId?: string;
+    subject?: string;
+    action: string;
+    publisherId?: string;
+    filename?: string;
+    // Content hashes (the ETags) of a publisher config before and after the change,
+    // null when it did not exist
+    beforeHash?: string | null;
+    afterHash?: string | null;
+    diff?: ConfigDiff;
+    details?: Record<string, unknown>;
+}
+
+// What a write handler knows about a change. `before` and `after` are the stored
+// contents of a publisher config; their hashes and diff end up in the event.
+export interface AuditChange {
+    publisherId?: string;
+    filename?: string;
+    before?: string | null;
+    after?: string | null;
+    details?: Record<string, unknown>;
+}
+
+export interface AuditQuery {
+    // publisherId or filename
+    publisher?: string;
+    actor?: string;
+    actions?: string[];
+    from?: Date;
+    to?: Date;
+    limit: number;
+}
+
+function parseContent(content: string | null | undefined) {
+    if (typeof content !== "string") {
+        return null;
+    }
+    try {
+        return JSON.parse(content);
+    } catch {
+        return null;
+    }
+}
+
+// Record an audit event for the current request. Failures are reported but do not
+// fail the request, whose change has already been committed.
+export async function recordAudit(action: string, change: AuditChange = {}): Promise<void> {
+    const context = currentRequestContext();
+    const principal = context?.principal;
+    const before = parseContent(change.before);
+    const after = parseContent(change.after);
+
+    const event: AuditEvent = {
+        id: crypto.randomUUID(),
+        timestamp: new Date().toISOString(),
+        ...(context && { requestId: context.requestId }),
+        actor: principal?.name || "system",
+        ...(principal?.keyId && { keyId: principal.keyId }),
+        ...(principal?.subject && { subject: principal.subject }),
+        action,
+        ...(change.publisherId !== undefined && { publisherId: change.publisherId }),
+        ...(change.filename !== undefined && { filename: change.filename }),
+        ...(change.before !== undefined && { beforeHash: change.before === null ? null : computeEtag(change.before) }),
+        ...(change.after !== undefined && { afterHash: change.after === null ? null : computeEtag(change.after) }),
+        ...(before && after && { diff: diffPublisherConfigs(before, after) }),
+        ...(change.details && { details: change.details })
+    };
+
+    try {
+        await appendLogFile(AUDIT_LOG_FILE, JSON.stringify(event), AUDIT_OPTIONS);
+    } catch (error) {
+        console.error("Failed to write audit event:", error instanceof Error ? error.message : error, event);
+    }
+}
+
+// Check the query string of GET /api/audit. Returns the query, or an error message.
+export function parseAuditQuery(query: Record<string, unknown>): AuditQuery | string {
+    const parsed: AuditQuery = { limit: DEFAULT_AUDIT_RESULTS };
+
+    for (const field of ["publisher", "actor"] as const) {
+        const value = query[field];
+        if (value === undefined) {
+            continue;
+        }
+        if (typeof value !== "string" || value.trim() === "") {
+            return `${field} must be a non-empty string`;
+        }
+        parsed[field] = value.trim();
+    }
+
+    if (query.action !== undefined) {
+        if (typeof query.action !== "string" || query.action.trim() === "") {
+            return "action must be a comma separated list of actions";
+        }
+        parsed.actions = query.action.split(",").map(action => action.trim().toUpperCase()).filter(Boolean);
+    }
+
+    for (const field of ["from", "to"] as const) {
+        const value = query[field];
+        if (value === undefined) {
+            continue;
+        }
+        const date = typeof value === "string" ? new Date(value) : null;
+        if (!date || Number.isNaN(date.getTime())) {
+            return `${field} must be an ISO 8601 date`;
+        }
+        parsed[field] = date;
+    }
+
+    if (query.limit !== undefined) {
+        const limit = Number(query.limit);
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_RESULTS) {
+            return `limit must be an integer between 1 and ${MAX_AUDIT_RESULTS}`;
+        }
+        parsed.limit = limit;
+    }
+
+    return parsed;
+}
+
+// Whether the event is about one of the publisher names (publisherIds or filenames)
+function concerns(event: AuditEvent, publishers: Set<string>): boolean {
+    return [event.publisherId, event.filename].some(name => name !== undefined && publishers.has(name));
+}
+
+// `publishers` holds the names the publisher filter matches (see queryAudit)
+function matches(event: AuditEvent, query: AuditQuery, publishers: Set<string>): boolean {
+    const time = Date.parse(event.timestamp);
+    return (query.publisher === undefined || concerns(event, publishers)) &&
+        (query.actor === undefined || event.actor === query.actor) &&
+        (query.actions === undefined || query.actions.includes(event.action)) &&
+        (query.from === undefined || time >= query.from.getTime()) &&
+        (query.to === undefined || time <= query.to.getTime());
+}
+
+// Names a publisher had before a RENAME_PUBLISHER event
+function renamedFrom(event: AuditEvent): string[] {
+    const from = event.details?.from as { filename?: unknown; publisherId?: unknown } | undefined;
+    return [from?.filename, from?.publisherId].filter((name): name is string => typeof name === "string");
+}
+
+// Matching events, newest first. Rotated files older than `from` are not read.
+// The publisher filter follows renames: older events recorded under a previous
+// filename or publisherId are matched too.
+export async function queryAudit(query: AuditQuery): Promise<{ events: AuditEvent[]; truncated: boolean }> {
+    const publishers = new Set(query.publisher === undefined ? [] : [query.publisher]);
+    const rotated = (await listRotatedFiles(AUDIT_LOG_FILE))
+        .filter(file => query.from === undefined || file.rotatedAt >= query.from.getTime());
+    const files = [AUDIT_LOG_FILE, ...rotated.reverse().map(file => file.path)];
+
+    const events: AuditEvent[] = [];
+    for (const file of files) {
+        const lines = await readLogLines(file);
+        for (let i = lines.length - 1; i >= 0; i--) {
+            let event: AuditEvent;
+            try {
+                event = JSON.parse(lines[i]);
+            } catch {
+                // A line cut short by a crash
+                continue;
+            }
+            const matched = matches(event, query, publishers);
+            if (query.publisher !== undefined && event.action === "RENAME_PUBLISHER" && concerns(event, publishers)) {
+                renamedFrom(event).forEach(name => publishers.add(name));
+            }
+            if (!matched) {
+                continue;
+            }
+            if (events.length === query.limit) {
+                return { events, truncated: true };
+            }
+            events.push(event);
+        }
+    }
+    return { events, truncated: false };
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "@jest/globals";
+import { hasRole, inScope, parsePublisherScope, requiredRole, type Principal } from "./auth.js";
+
+describe("roles", () => {
+  it("should require viewer for reads, editor for writes and admin for deletes", () => {
+    expect(requiredRole("GET", "/publishers")).toBe("viewer");
+    expect(requiredRole("POST", "/publisher/a.json/validate")).toBe("viewer");
+    expect(requiredRole("PUT", "/publisher/a.json")).toBe("editor");
+    expect(requiredRole("DELETE", "/publisher/a.json")).toBe("admin");
+    expect(requiredRole("GET", "/admin/keys")).toBe("admin");
+    expect(requiredRole("GET", "/audit")).toBe("admin");
+    expect(requiredRole("POST", "/import")).toBe("admin");
+    expect(requiredRole("GET", "/vocabularies")).toBe("viewer");
+    expect(requiredRole("POST", "/vocabularies/positions")).toBe("admin");
+    expect(requiredRole("PUT", "/vocabularies/positions/top")).toBe("admin");
+  });
+
+  it("should leave live writes to admins when publishing needs approval", () => {
+    const options = { publishRequiresApproval: true };
+    expect(requiredRole("PUT", "/publisher/a.json", options)).toBe("admin");
+    expect(requiredRole("POST", "/publisher/a.json/revisions/3/restore", options)).toBe("admin");
+    expect(requiredRole("POST", "/publisher/a.json/rename", options)).toBe("admin");
+    expect(requiredRole("PUT", "/vocabularies/positions/top", options)).toBe("admin");
+    expect(requiredRole("PUT", "/publisher/a.json/draft", options)).toBe("editor");
+    expect(requiredRole("POST", "/publisher/a.json/publish", options)).toBe("editor");
+    expect(requiredRole("DELETE", "/publisher/a.json/draft")).toBe("editor");
+  });
+
+  it("should let higher roles do what lower roles can", () => {
+    const editor: Principal = { name: "bob", role: "editor" };
+    expect(hasRole(editor, "viewer")).toBe(true);
+    expect(hasRole(editor, "editor")).toBe(true);
+    expect(hasRole(editor, "admin")).toBe(false);
+  });
+});
+
+describe("publisher scopes", () => {
+  const principal = (scope: Principal["scope"]): Principal => ({ name: "alice", role: "editor", scope });
+  const aurora = { file: "publisher-aurora.json", publisherId: "pub-aurora", tags: ["news"] };
+
+  it("should match a publisher on any of its ID, tags or filename", () => {
+    expect(inScope(principal({ publisherIds: ["pub-aurora"] }), aurora)).toBe(true);
+    expect(inScope(principal({ tags: ["sports", "news"] }), aurora)).toBe(true);
+    expect(inScope(principal({ files: ["publisher-a*.json"] }), aurora)).toBe(true);
+    expect(inScope(principal({ files: ["publisher-?.json", "publisher-summit.json"] }), aurora)).toBe(false);
+    expect(inScope(principal(undefined), aurora)).toBe(true);
+  });
+
+  it("should treat file patterns literally apart from the wildcards", () => {
+    expect(inScope(principal({ files: ["publisher-aurora.json"] }), { file: "publisher-auroraXjson" })).toBe(false);
+  });
+
+  it("should validate scopes", () => {
+    expect(parsePublisherScope({ publisherIds: ["pub-aurora"], tags: [] })).toEqual({ publisherIds: ["pub-aurora"] });
+    expect(parsePublisherScope({ tags: [] })).toBe("scope must list at least one publisherId, tag or file pattern");
+    expect(parsePublisherScope({ files: [""] })).toBe("scope.files must be an array of non-empty strings");
+    expect(parsePublisherScope({ owners: ["me"] })).toBe('Unknown scope field "owners", expected publisherIds, tags, files');
+  });
+});
@@ -0,0 +1,136 @@
+export type Role = "viewer" | "editor" | "admin";
+
+export const ROLES: Role[] = ["viewer", "editor", "admin"];
+
+// Publishers a principal is limited to. A publisher is in scope when it matches any
+// of the lists: its publisherId, one of its tags, or its filename (* and ? wildcards).
+export interface PublisherScope {
+    publisherIds?: string[];
+    tags?: string[];
+    files?: string[];
+}
+
+// Who a request is made by
+export interface Principal {
+    // Recorded as the actor of revisions and log entries
+    name: string;
+    role: Role;
+    // API key the request was authenticated with
+    keyId?: string;
+    // "sub" claim of the bearer token the request was authenticated with
+    subject?: string;
+    // Without a scope the role applies to every publisher
+    scope?: PublisherScope;
+}
+
+// Publisher fields a scope is matched against
+export interface PublisherRef {
+    file: string;
+    publisherId?: unknown;
+    tags?: unknown;
+}
+
+export function isRole(value: unknown): value is Role {
+    return typeof value === "string" && (ROLES as string[]).includes(value);
+}
+
+// Roles are ordered: an editor can do everything a viewer can, an admin everything
+export function hasRole(principal: Principal, required: Role): boolean {
+    return ROLES.indexOf(principal.role) >= ROLES.indexOf(required);
+}
+
+// Writes that change live configs without going through a draft. Deletes, imports and
+// vocabulary renames that rewrite configs are admin-only in any case.
+function isLiveWrite(method: string, path: string): boolean {
+    return (["PUT", "PATCH", "POST"].includes(method) && /^\/publisher\/[^/]+$/.test(path)) ||
+        (method === "POST" && (/^\/publisher\/[^/]+\/(revisions\/\d+\/restore|rename)$/.test(path) || path === "/publishers/bulk"));
+}
+
+// Role needed for a request under /api: reads for viewers, writes for editors, deletes
+// and the admin endpoints (API keys, consistency, reconcile, audit log, import) for admins.
+// When publishing needs approval, live writes are left to admins so editors cannot skip the review.
+export function requiredRole(method: string, path: string, options: { publishRequiresApproval?: boolean } = {}): Role {
+    if (path.startsWith("/admin/") || path === "/publishers/reconcile" || path === "/audit" || path === "/import") {
+        return "admin";
+    }
+    // The vocabulary registry is read by everyone (GET /vocabularies) and managed by admins
+    if (path.startsWith("/vocabularies/")) {
+        return "admin";
+    }
+    // Validation and diff previews are POSTs that never write
+    if (method === "POST" && /\/(validate|diff)$/.test(path)) {
+        return "viewer";
+    }
+    if (options.publishRequiresApproval && isLiveWrite(method, path)) {
+        return "admin";
+    }
+    // Discarding a draft leaves the live config alone
+    if (method === "DELETE" && /^\/publisher\/[^/]+\/draft$/.test(path)) {
+        return "editor";
+    }
+    switch (method) {
+        case "GET":
+        case "HEAD":
+        case "OPTIONS":
+            return "viewer";
+        case "DELETE":
+            return "admin";
+        default:
+            return "editor";
+    }
+}
+
+// Endpoints acting on every publisher at once (admin endpoints, reconcile, the audit log,
+// import and the vocabularies, whose renames rewrite configs) are closed to publisher-scoped principals
+export function requiresGlobalScope(method: string, path: string): boolean {
+    return path.startsWith("/admin/") ||
+        path === "/publishers/reconcile" ||
+        path === "/audit" ||
+        path === "/import" ||
+        (path.startsWith("/vocabularies") && method !== "GET" && method !== "HEAD");
+}
+
+const SCOPE_FIELDS: (keyof PublisherScope)[] = ["publisherIds", "tags", "files"];
+
+// Check a scope sent to the API. Returns the scope without empty lists, or an error message.
+export function parsePublisherScope(value: unknown): PublisherScope | string {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return "scope must be an object with publisherIds, tags and/or files";
+    }
+
+    const scope: PublisherScope = {};
+    for (const [field, list] of Object.entries(value)) {
+        if (!(SCOPE_FIELDS as string[]).includes(field)) {
+            return `Unknown scope field "${field}", expected ${SCOPE_FIELDS.join(", ")}`;
+        }
+        if (!Array.isArray(list) || !list.every(entry => typeof entry === "string" && entry.trim() !== "")) {
+            return `scope.${field} must be an array of non-empty strings`;
+        }
+        if (list.length > 0) {
+            scope[field as keyof PublisherScope] = list.map(entry => entry.trim());
+        }
+    }
+    if (Object.keys(scope).length === 0) {
+        return "scope must list at least one publisherId, tag or file pattern";
+    }
+    return scope;
+}
+
+function matchesFilePattern(pattern: string, file: string): boolean {
+    const source = pattern.split("").map(char =>
+        char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    ).join("");
+    return new RegExp(`^${source}$`).test(file);
+}
+
+// Whether a principal may act on a publisher
+export function inScope(principal: Principal, publisher: PublisherRef): boolean {
+    const { scope } = principal;
+    if (!scope) {
+        return true;
+    }
+    const tags = Array.isArray(publisher.tags) ? publisher.tags : [];
+    return (scope.publisherIds || []).some(id => id === publisher.publisherId) ||
+        (scope.tags || []).some(tag => tags.includes(tag)) ||
+        (scope.files || []).some(pattern => matchesFilePattern(pattern, publisher.file));
+}
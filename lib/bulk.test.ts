@@ -0,0 +1,73 @@
+import { describe, it, expect } from "@jest/globals";
+import { applyBulkOperations, parseBulkRequest, selectsPublisher, type BulkSelector } from "./bulk.js";
+import { summarizePublisher } from "./publisher-index.js";
+import type { PublisherConfig } from "../types/interfaces.js";
+
+const config: PublisherConfig = {
+  publisherId: "pub-aurora",
+  aliasName: "Aurora",
+  isActive: true,
+  tags: ["news"],
+  pages: [
+    { pageType: "video", selector: "#player", position: "top" },
+    { pageType: "text", selector: "main", position: "top" }
+  ],
+  publisherDashboard: "https://mixpanel.com/project/101/dashboards/5001",
+  monitorDashboard: "https://grafana.example.com/d/aur0ra01",
+  qaStatusDashboard: "https://internal.example.com/qa/aurora/status"
+};
+
+describe("parseBulkRequest", () => {
+  it("should accept selectors, filters and operations", () => {
+    expect(parseBulkRequest({
+      selector: { tags: ["news"], filter: { isActive: true, pageType: "video" } },
+      operations: [{ op: "setPageField", pageType: "video", field: "position", value: "bottom" }],
+      transactional: true
+    })).toEqual({
+      selector: { tags: ["news"], filter: { isActive: true, pageType: "video", sort: "alias", descending: false } },
+      operations: [{ op: "setPageField", pageType: "video", field: "position", value: "bottom" }],
+      transactional: true
+    });
+  });
+
+  it("should reject requests that select nothing or cannot be applied", () => {
+    const operations = [{ op: "set", field: "isActive", value: false }];
+    expect(parseBulkRequest({ selector: {}, operations })).toBe("selector must list publisherIds, files, tags or a filter");
+    expect(parseBulkRequest({ selector: { filter: { limit: "5" } }, operations }))
+      .toBe('Unknown selector.filter field "limit", expected isActive, tags, pageType, position, q');
+    expect(parseBulkRequest({ selector: { tags: ["news"] }, operations: [{ op: "set", field: "publisherId", value: "x" }] }))
+      .toBe("operations[0]: publisherId cannot be changed in bulk");
+    expect(parseBulkRequest({ selector: { tags: ["news"] }, operations: [{ op: "rename" }] }))
+      .toBe("operations[0].op must be one of set, addTag, removeTag, setPageField");
+  });
+});
+
+describe("selectsPublisher", () => {
+  const entry = summarizePublisher({ id: "pub-aurora", alias: "Aurora", file: "publisher-aurora.json" }, config);
+
+  it("should require every criterion and any value of each", () => {
+    const selects = (selector: BulkSelector) => selectsPublisher(selector, entry);
+    expect(selects({ tags: ["sports", "news"] })).toBe(true);
+    expect(selects({ tags: ["news"], publisherIds: ["pub-summit"] })).toBe(false);
+    expect(selects({ files: ["publisher-aurora.json"], publisherIds: ["pub-aurora"] })).toBe(true);
+  });
+});
+
+describe("applyBulkOperations", () => {
+  it("should patch a copy of the config", () => {
+    const updated = applyBulkOperations(config, [
+      { op: "set", field: "isActive", value: false },
+      { op: "addTag", tag: "premium" },
+      { op: "removeTag", tag: "news" },
+      { op: "setPageField", pageType: "video", field: "position", value: "bottom" }
+    ]);
+
+    expect(updated).toMatchObject({ isActive: false, tags: ["premium"] });
+    expect(updated!.pages.map(page => page.position)).toEqual(["bottom", "top"]);
+    expect(config.isActive).toBe(true);
+  });
+
+  it("should report configs the operations leave unchanged", () => {
+    expect(applyBulkOperations(config, [{ op: "addTag", tag: "news" }, { op: "set", field: "isActive", value: true }])).toBeNull();
+  });
+});
@@ -0,0 +1,195 @@
+import { parsePublisherQuery, type IndexedPublisher, type PublisherQuery } from "./publisher-index.js";
+import type { ConfigValue, Page, PublisherConfig } from "../types/interfaces.js";
+
+export const MAX_BULK_PUBLISHERS = 500;
+
+// Which publishers a bulk update applies to. Every given criterion must match; within a
+// list any value does. `filter` takes the GET /api/publishers filters (isActive, tags,
+// pageType, position, q).
+export interface BulkSelector {
+    publisherIds?: string[];
+    files?: string[];
+    tags?: string[];
+    filter?: PublisherQuery;
+}
+
+export type BulkOperation =
+    // Set a top-level field (any field but publisherId)
+    | { op: "set"; field: string; value: ConfigValue }
+    | { op: "addTag"; tag: string }
+    | { op: "removeTag"; tag: string }
+    // Set selector or position on every page of a page type
+    | { op: "setPageField"; pageType: string; field: "selector" | "position"; value: string };
+
+export interface BulkRequest {
+    selector: BulkSelector;
+    operations: BulkOperation[];
+    // Apply nothing unless every selected publisher can be updated
+    transactional: boolean;
+}
+
+const FILTER_FIELDS = ["isActive", "tags", "pageType", "position", "q"];
+
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.length > 0 && value.every(entry => typeof entry === "string" && entry.trim() !== "");
+}
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === "string" && value.trim() !== "";
+}
+
+function parseSelector(value: unknown): BulkSelector | string {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return "selector must be an object";
+    }
+    const raw = value as Record<string, unknown>;
+    const selector: BulkSelector = {};
+
+    for (const field of ["publisherIds", "files", "tags"] as const) {
+        if (raw[field] === undefined) {
+            continue;
+        }
+        if (!isStringList(raw[field])) {
+            return `selector.${field} must be a non-empty array of non-empty strings`;
+        }
+        selector[field] = raw[field] as string[];
+    }
+
+    if (raw.filter !== undefined) {
+        if (!raw.filter || typeof raw.filter !== "object" || Array.isArray(raw.filter)) {
+            return "selector.filter must be an object";
+        }
+        const filter = raw.filter as Record<string, unknown>;
+        const unknown = Object.keys(filter).find(key => !FILTER_FIELDS.includes(key));
+        if (unknown) {
+            return `Unknown selector.filter field "${unknown}", expected ${FILTER_FIELDS.join(", ")}`;
+        }
+        // Same syntax as the query string of GET /api/publishers
+        const query = parsePublisherQuery(Object.fromEntries(
+            Object.entries(filter).map(([key, entry]) => [key, Array.isArray(entry) ? entry.join(",") : String(entry)])
+        ));
+        if (typeof query === "string") {
+            return `selector.filter: ${query}`;
+        }
+        selector.filter = query;
+    }
+
+    const known = ["publisherIds", "files", "tags", "filter"];
+    const unknown = Object.keys(raw).find(key => !known.includes(key));
+    if (unknown) {
+        return `Unknown selector field "${unknown}", expected ${known.join(", ")}`;
+    }
+    if (Object.keys(selector).length === 0) {
+        return "selector must list publisherIds, files, tags or a filter";
+    }
+    return selector;
+}
+
+function parseOperation(value: unknown, index: number): BulkOperation | string {
+    const operation = value && typeof value === "object" ? value as Record<string, unknown> : {};
+    const prefix = `operations[${index}]`;
+
+    switch (operation.op) {
+        case "set":
+            if (!isNonEmptyString(operation.field)) {
+                return `${prefix}.field must be a non-empty string`;
+            }
+            if (operation.field === "publisherId") {
+                return `${prefix}: publisherId cannot be changed in bulk`;
+            }
+            if (operation.value === undefined) {
+                return `${prefix}.value is required`;
+            }
+            return { op: "set", field: operation.field, value: operation.value as ConfigValue };
+        case "addTag":
+        case "removeTag":
+            if (!isNonEmptyString(operation.tag)) {
+                return `${prefix}.tag must be a non-empty string`;
+            }
+            return { op: operation.op, tag: operation.tag.trim() };
+        case "setPageField":
+            if (!isNonEmptyString(operation.pageType)) {
+                return `${prefix}.pageType must be a non-empty string`;
+            }
+            if (operation.field !== "selector" && operation.field !== "position") {
+                return `${prefix}.field must be selector or position`;
+            }
+            if (!isNonEmptyString(operation.value)) {
+                return `${prefix}.value must be a non-empty string`;
+            }
+            return { op: "setPageField", pageType: operation.pageType, field: operation.field, value: operation.value };
+        default:
+            return `${prefix}.op must be one of set, addTag, removeTag, setPageField`;
+    }
+}
+
+// Check the body of POST /api/publishers/bulk. Returns the request, or an error message.
+export function parseBulkRequest(body: unknown): BulkRequest | string {
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+        return "Request body must be an object with selector and operations";
+    }
+    const raw = body as Record<string, unknown>;
+
+    const selector = parseSelector(raw.selector);
+    if (typeof selector === "string") {
+        return selector;
+    }
+
+    if (!Array.isArray(raw.operations) || raw.operations.length === 0) {
+        return "operations must be a non-empty array";
+    }
+    const operations: BulkOperation[] = [];
+    for (let i = 0; i < raw.operations.length; i++) {
+        const operation = parseOperation(raw.operations[i], i);
+        if (typeof operation === "string") {
+            return operation;
+        }
+        operations.push(operation);
+    }
+
+    if (raw.transactional !== undefined && typeof raw.transactional !== "boolean") {
+        return "transactional must be a boolean";
+    }
+
+    return { selector, operations, transactional: raw.transactional === true };
+}
+
+// Whether an indexed publisher matches the id, file and tag criteria of a selector
+// (the filter is applied by queryPublisherIndex)
+export function selectsPublisher(selector: BulkSelector, entry: IndexedPublisher): boolean {
+    return (selector.publisherIds === undefined || selector.publisherIds.includes(entry.item.id)) &&
+        (selector.files === undefined || selector.files.includes(entry.item.file)) &&
+        (selector.tags === undefined || selector.tags.some(tag => entry.tags.includes(tag)));
+}
+
+// Apply the operations to a copy of a config. Returns null when nothing changed.
+export function applyBulkOperations(config: PublisherConfig, operations: BulkOperation[]): PublisherConfig | null {
+    const updated: PublisherConfig = JSON.parse(JSON.stringify(config));
+
+    for (const operation of operations) {
+        switch (operation.op) {
+            case "set":
+                updated[operation.field] = operation.value;
+                break;
+            case "addTag": {
+                const tags = Array.isArray(updated.tags) ? updated.tags : [];
+                updated.tags = tags.includes(operation.tag) ? tags : [...tags, operation.tag];
+                break;
+            }
+            case "removeTag":
+                if (Array.isArray(updated.tags)) {
+                    updated.tags = updated.tags.filter(tag => tag !== operation.tag);
+                }
+                break;
+            case "setPageField":
+                if (Array.isArray(updated.pages)) {
+                    updated.pages = updated.pages.map((page: Page) =>
+                        page && page.pageType === operation.pageType ? { ...page, [operation.field]: operation.value } : page
+                    );
+                }
+                break;
+        }
+    }
+
+    return JSON.stringify(updated) === JSON.stringify(config) ? null : updated;
+}
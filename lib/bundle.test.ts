@@ -0,0 +1,47 @@
+import { describe, it, expect } from "@jest/globals";
+import { bundleLine, csvHeader, csvRows, parseImportBundle } from "./bundle.js";
+
+describe("parseImportBundle", () => {
+  it("should read the configs of an exported bundle", () => {
+    const bundle = [
+      bundleLine({ type: "manifest", version: 1, exportedAt: "2024-01-01T00:00:00.000Z", count: 1 }),
+      bundleLine({ type: "publishers", publishers: [{ id: "pub1", alias: "Pub 1", file: "pub1.json" }] }),
+      bundleLine({ type: "config", filename: "pub1.json", config: { publisherId: "pub1" } })
+    ].join("");
+
+    expect(parseImportBundle(bundle)).toEqual([{ filename: "pub1.json", config: { publisherId: "pub1" } }]);
+    expect(parseImportBundle({ items: [{ filename: "pub1.json", config: { publisherId: "pub1" } }] }))
+      .toEqual([{ filename: "pub1.json", config: { publisherId: "pub1" } }]);
+  });
+
+  it("should reject malformed bundles", () => {
+    expect(parseImportBundle("{\"type\":\"config\"}\nnot json")).toBe("Line 2 is not valid JSON");
+    expect(parseImportBundle(bundleLine({ type: "manifest", version: 2, exportedAt: "", count: 0 })))
+      .toBe("Unsupported bundle version 2, expected 1");
+    expect(parseImportBundle("{\"type\":\"other\"}")).toMatch(/^Line 1 has an unknown type/);
+    expect(parseImportBundle({ items: "pub1.json" })).toBe("items must be an array of { filename, config }");
+  });
+});
+
+describe("csvRows", () => {
+  it("should write one row per page and neutralize formulas", () => {
+    const config = {
+      publisherId: "pub1",
+      aliasName: "=HYPERLINK(\"x\")",
+      isActive: true,
+      tags: ["news", "sports"],
+      pages: [
+        { pageType: "video", selector: "#main, .player", position: "top" },
+        { pageType: "article", selector: "main", position: "bottom" }
+      ]
+    };
+
+    expect(csvHeader()).toBe("file,publisherId,aliasName,isActive,tags,notes,page,pageType,selector,position\r\n");
+    expect(csvRows("pub1.json", config)).toEqual([
+      "pub1.json,pub1,\"'=HYPERLINK(\"\"x\"\")\",true,news;sports,,1,video,\"#main, .player\",top\r\n",
+      "pub1.json,pub1,\"'=HYPERLINK(\"\"x\"\")\",true,news;sports,,2,article,main,bottom\r\n"
+    ]);
+    expect(csvRows("pub2.json", { publisherId: "pub2", aliasName: "Pub 2", pages: [] }))
+      .toEqual(["pub2.json,pub2,Pub 2,,,,,,,\r\n"]);
+  });
+});
@@ -0,0 +1,107 @@
+import type { PublisherConfig, PublisherListItem } from "../types/interfaces.js";
+
+// Export bundles (GET /api/export) are NDJSON: a manifest line, the publishers.json
+// entries, then one line per config. POST /api/import reads the same format.
+export const BUNDLE_VERSION = 1;
+
+export type BundleLine =
+    | { type: "manifest"; version: number; exportedAt: string; count: number }
+    | { type: "publishers"; publishers: PublisherListItem[] }
+    | { type: "config"; filename: string; config: PublisherConfig };
+
+// What to do with an imported config whose filename or publisherId is already taken:
+// skip it, overwrite the existing file, or import nothing at all
+export type ImportMode = "skip" | "overwrite" | "fail";
+
+export const IMPORT_MODES: ImportMode[] = ["skip", "overwrite", "fail"];
+
+export interface ImportItem {
+    filename: string;
+    config: unknown;
+}
+
+export function isImportMode(value: unknown): value is ImportMode {
+    return IMPORT_MODES.includes(value as ImportMode);
+}
+
+export function bundleLine(line: BundleLine): string {
+    return `${JSON.stringify(line)}\n`;
+}
+
+// Configs of an import: an NDJSON bundle as exported (manifest and publishers lines
+// are ignored, the list is rebuilt from the configs) or { items: [{ filename, config }] }.
+// Returns the items, or an error message.
+export function parseImportBundle(body: unknown): ImportItem[] | string {
+    if (body && typeof body === "object" && !Array.isArray(body)) {
+        const items = (body as { items?: unknown }).items;
+        if (!Array.isArray(items)) {
+            return "items must be an array of { filename, config }";
+        }
+        return items.map(item => ({
+            filename: typeof item?.filename === "string" ? item.filename : "",
+            config: item?.config
+        }));
+    }
+
+    if (typeof body !== "string") {
+        return "Send an NDJSON bundle (application/x-ndjson) or { items: [{ filename, config }] }";
+    }
+
+    const items: ImportItem[] = [];
+    const lines = body.split("\n");
+    for (let i = 0; i < lines.length; i++) {
+        if (lines[i].trim() === "") {
+            continue;
+        }
+        let line;
+        try {
+            line = JSON.parse(lines[i]);
+        } catch {
+            return `Line ${i + 1} is not valid JSON`;
+        }
+        if (line?.type === "manifest") {
+            if (line.version !== BUNDLE_VERSION) {
+                return `Unsupported bundle version ${line.version}, expected ${BUNDLE_VERSION}`;
+            }
+        } else if (line?.type === "config") {
+            items.push({ filename: typeof line.filename === "string" ? line.filename : "", config: line.config });
+        } else if (line?.type !== "publishers") {
+            return `Line ${i + 1} has an unknown type, expected manifest, publishers or config`;
+        }
+    }
+    return items;
+}
+
+export const CSV_COLUMNS = ["file", "publisherId", "aliasName", "isActive", "tags", "notes", "page", "pageType", "selector", "position"];
+
+// Spreadsheets run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: unknown): string {
+    let text = value === undefined || value === null ? "" : String(value);
+    if (FORMULA_PREFIX.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
+
+// CSV rows of a config for spreadsheet review: one per page (the publisher columns
+// repeated), or a single row without page columns for a config without pages
+export function csvRows(file: string, config: PublisherConfig): string[] {
+    const publisher = [
+        file,
+        config.publisherId,
+        config.aliasName,
+        config.isActive,
+        Array.isArray(config.tags) ? config.tags.join(";") : "",
+        config.notes
+    ];
+    const pages = Array.isArray(config.pages) && config.pages.length > 0 ? config.pages : [null];
+    return pages.map((page, index) =>
+        [...publisher, page ? index + 1 : "", page?.pageType, page?.selector, page?.position].map(csvCell).join(",") + "\r\n"
+    );
+}
+
+export function csvHeader(): string {
+    return `${CSV_COLUMNS.join(",")}\r\n`;
+}
@@ -0,0 +1,218 @@
+import path from "path";
+import fs from "fs/promises";
+import { DATA_DIR, validateFilename } from "./paths.js";
+import { withFileLock } from "./locks.js";
+import { isPublisherConfig, listConfigFiles } from "./reconcile.js";
+import {
+    PUBLISHERS_FILE,
+    readPublishersList,
+    sortPublishers,
+    toListItem,
+    writePublishersList
+} from "./publishers-list.js";
+import type { PublisherListItem } from "../types/interfaces.js";
+
+export type ConsistencyIssueType =
+    | "unreadable_index"      // publishers.json is missing, corrupted or has an invalid structure
+    | "invalid_entry"         // index entry with an invalid filename or a missing id/alias
+    | "duplicate_entry"       // the same file is listed more than once
+    | "dangling_entry"        // index entry whose config file does not exist
+    | "unindexed_file"        // config file without an index entry
+    | "id_mismatch"           // publisherId in the file differs from the index id
+    | "duplicate_id"          // several config files share a publisherId
+    | "invalid_json"          // config file is not valid JSON
+    | "invalid_config";       // config file parses but is not a publisher config
+
+export interface ConsistencyIssue {
+    type: ConsistencyIssueType;
+    file?: string;
+    id?: string;
+    message: string;
+    // Whether --fix repairs it. Problems inside config files are never repaired automatically.
+    fixable: boolean;
+    fixed?: boolean;
+}
+
+export interface ConsistencyReport {
+    fix: boolean;
+    consistent: boolean;
+    issues: ConsistencyIssue[];
+    // Where the unreadable publishers.json was copied before being rebuilt
+    backup?: string;
+}
+
+// Parsed config file as seen by the checker
+type ScannedFile =
+    | { file: string; status: "ok"; item: PublisherListItem }
+    | { file: string; status: "invalid_json" | "invalid_config"; reason: string };
+
+async function scanConfigFiles(): Promise<ScannedFile[]> {
+    const scanned: ScannedFile[] = [];
+
+    for (const file of await listConfigFiles()) {
+        const filePath = path.join(DATA_DIR, file);
+        const data = await fs.readFile(filePath, "utf-8");
+
+        let config: unknown;
+        try {
+            config = JSON.parse(data);
+        } catch (error) {
+            scanned.push({ file, status: "invalid_json", reason: error instanceof Error ? error.message : "Invalid JSON" });
+            continue;
+        }
+        if (!isPublisherConfig(config)) {
+            scanned.push({ file, status: "invalid_config", reason: "publisherId or aliasName is missing" });
+            continue;
+        }
+
+        const stats = await fs.stat(filePath);
+        scanned.push({ file, status: "ok", item: toListItem(file, config, stats.mtime.toISOString()) });
+    }
+
+    return scanned;
+}
+
+function isValidEntry(entry: PublisherListItem): boolean {
+    return !!entry && typeof entry.file === "string" && validateFilename(entry.file)
+        && typeof entry.id === "string" && entry.id !== ""
+        && typeof entry.alias === "string";
+}
+
+// Compare publishers.json with the config files in data/ and report every
+// inconsistency. With `fix`, the index is repaired: dangling and invalid entries are
+// dropped, unindexed files are added and ids are taken from the files. Config files
+// are never modified or deleted, and anything involving a duplicate publisherId is
+// left for a human to resolve.
+export async function checkConsistency(options: { fix?: boolean } = {}): Promise<ConsistencyReport> {
+    const fix = options.fix === true;
+
+    return withFileLock(PUBLISHERS_FILE, async () => {
+        const issues: ConsistencyIssue[] = [];
+        const report: ConsistencyReport = { fix, consistent: true, issues };
+
+        let entries: PublisherListItem[] = [];
+        let indexReadable = true;
+        try {
+            entries = (await readPublishersList()).publishers;
+        } catch (error) {
+            indexReadable = false;
+            issues.push({
+                type: "unreadable_index",
+                file: PUBLISHERS_FILE,
+                message: `${PUBLISHERS_FILE} cannot be read: ${error instanceof Error ? error.message : "Unknown error"}`,
+                fixable: true
+            });
+        }
+
+        const scanned = await scanConfigFiles();
+        const filesById = new Map<string, string[]>();
+        for (const scan of scanned) {
+            if (scan.status === "ok") {
+                filesById.set(scan.item.id, [...(filesById.get(scan.item.id) || []), scan.file]);
+            } else {
+                issues.push({ type: scan.status, file: scan.file, message: `${scan.file}: ${scan.reason}`, fixable: false });
+            }
+        }
+
+        const duplicateIds = new Set<string>();
+        for (const [id, files] of filesById) {
+            if (files.length > 1) {
+                duplicateIds.add(id);
+                issues.push({
+                    type: "duplicate_id",
+                    id,
+                    message: `publisherId "${id}" is used by ${files.join(", ")}`,
+                    fixable: false
+                });
+            }
+        }
+
+        const filesOnDisk = new Map(scanned.map(scan => [scan.file, scan]));
+        const repaired: PublisherListItem[] = [];
+        const indexedFiles = new Set<string>();
+
+        for (const entry of entries) {
+            if (!isValidEntry(entry)) {
+                issues.push({
+                    type: "invalid_entry",
+                    file: typeof entry?.file === "string" ? entry.file : undefined,
+                    message: `Index entry ${JSON.stringify(entry)} is invalid`,
+                    fixable: true
+                });
+                continue;
+            }
+            if (indexedFiles.has(entry.file)) {
+                issues.push({ type: "duplicate_entry", file: entry.file, id: entry.id, message: `${entry.file} is listed more than once`, fixable: true });
+                continue;
+            }
+            indexedFiles.add(entry.file);
+
+            const scan = filesOnDisk.get(entry.file);
+            if (!scan) {
+                issues.push({ type: "dangling_entry", file: entry.file, id: entry.id, message: `${entry.file} is listed but does not exist`, fixable: true });
+                continue;
+            }
+            if (scan.status !== "ok") {
+                // Reported above; keep the entry so the publisher stays visible until the file is fixed
+                repaired.push(entry);
+                continue;
+            }
+            if (scan.item.id !== entry.id) {
+                const fixable = !duplicateIds.has(scan.item.id);
+                issues.push({
+                    type: "id_mismatch",
+                    file: entry.file,
+                    id: entry.id,
+                    message: `${entry.file} has publisherId "${scan.item.id}" but is listed as "${entry.id}"`,
+                    fixable
+                });
+                repaired.push(fixable ? { ...scan.item, updatedAt: entry.updatedAt || scan.item.updatedAt } : entry);
+                continue;
+            }
+            repaired.push(entry);
+        }
+
+        for (const scan of scanned) {
+            if (scan.status === "ok" && !indexedFiles.has(scan.file)) {
+                const fixable = !duplicateIds.has(scan.item.id);
+                // A rebuilt index reports every file as unindexed, which is noise
+                if (indexReadable) {
+                    issues.push({
+                        type: "unindexed_file",
+                        file: scan.file,
+                        id: scan.item.id,
+                        message: `${scan.file} is not listed in ${PUBLISHERS_FILE}`,
+                        fixable
+                    });
+                }
+                if (fixable) {
+                    repaired.push(scan.item);
+                }
+            }
+        }
+
+        report.consistent = issues.length === 0;
+
+        if (fix && issues.some(issue => issue.fixable)) {
+            if (!indexReadable) {
+                const backup = `${PUBLISHERS_FILE}.${Date.now()}.bak`;
+                try {
+                    await fs.copyFile(path.join(DATA_DIR, PUBLISHERS_FILE), path.join(DATA_DIR, backup));
+                    report.backup = backup;
+                } catch (error) {
+                    // Nothing to back up when the index is missing altogether
+                    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+                    if (!errorMessage.includes("ENOENT")) {
+                        throw error;
+                    }
+                }
+            }
+            await writePublishersList({ publishers: sortPublishers(repaired) });
+            issues.forEach(issue => {
+                issue.fixed = issue.fixable;
+            });
+        }
+
+        return report;
+    });
+}
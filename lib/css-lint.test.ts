@@ -0,0 +1,73 @@
+import { describe, it, expect } from "@jest/globals";
+import { lintSelector, lintStylesheet } from "./css-lint.js";
+
+describe("lintSelector", () => {
+  it("should accept valid selectors", () => {
+    expect(lintSelector(".article-top", "$.pages[0].selector")).toEqual([]);
+    expect(lintSelector("main, #player > .ad:not(.hidden)", "$.pages[0].selector")).toEqual([]);
+  });
+
+  it("should report syntax errors with their position", () => {
+    expect(lintSelector("..article-top", "$.pages[1].selector")).toEqual([{
+      path: "$.pages[1].selector",
+      message: "pages[1].selector (line 1, column 2): invalid selector, identifier is expected",
+      line: 1,
+      column: 2
+    }]);
+  });
+
+  it("should report a dangling combinator", () => {
+    expect(lintSelector("div >", "$.pages[0].selector")).toEqual([expect.objectContaining({ line: 1, column: 5 })]);
+  });
+});
+
+describe("lintStylesheet", () => {
+  it("should accept plain stylesheets", () => {
+    const css = "/* highlight article top area */\n.article-top { outline: 2px dashed #09f; background: url(img/bg.png); }";
+    expect(lintStylesheet(css, "$.customCss")).toEqual([]);
+  });
+
+  it("should reject denylisted constructs", () => {
+    const css = [
+      "@import url(https://cdn.example.com/x.css);",
+      ".a { background: url('//evil.example.com/a.png'); }",
+      ".b { width: expression(alert(1)); }",
+      ".c { -moz-binding: url(x.xml#xss); }",
+      ".d { background: url(\"javascript:alert(1)\"); }"
+    ].join("\n");
+
+    expect(lintStylesheet(css, "$.customCss").map(error => error.message)).toEqual([
+      "customCss (line 1, column 1): @import is not allowed",
+      "customCss (line 1, column 9): external url() \"https://cdn.example.com/x.css\" is not allowed",
+      "customCss (line 2, column 18): external url() \"//evil.example.com/a.png\" is not allowed",
+      "customCss (line 3, column 13): expression() is not allowed",
+      "customCss (line 4, column 6): property \"-moz-binding\" is not allowed",
+      "customCss (line 5, column 18): script URLs are not allowed"
+    ]);
+  });
+
+  it("should reject denylisted constructs written with escapes", () => {
+    const css = [
+      "@\\69mport \"http://evil.com/x.css\";",
+      ".a { width: expr\\65ssion(alert(1)); }",
+      ".b { beh\\61vior: url(x.htc); }",
+      ".c { background: u\\72l(\"http://evil.com/a.png\"); }"
+    ].join("\n");
+
+    expect(lintStylesheet(css, "$.customCss").map(error => error.message)).toEqual([
+      "customCss (line 1, column 1): @import is not allowed",
+      "customCss (line 2, column 13): expression() is not allowed",
+      "customCss (line 3, column 6): property \"behavior\" is not allowed",
+      "customCss (line 4, column 24): external url() \"http://evil.com/a.png\" is not allowed"
+    ]);
+  });
+
+  it("should report unbalanced braces", () => {
+    expect(lintStylesheet(".a { color: red;\n.b { color: blue; }", "$.customCss")).toContainEqual(
+      expect.objectContaining({ line: 1, column: 4, message: "customCss (line 1, column 4): unclosed block" })
+    );
+    expect(lintStylesheet(".a { color: red; } }", "$.customCss")).toContainEqual(
+      expect.objectContaining({ line: 1, column: 20, message: "customCss (line 1, column 20): unexpected \"}\"" })
+    );
+  });
+});
@@ -0,0 +1,189 @@
+import * as csstree from "css-tree";
+import type { SchemaError } from "./schema.js";
+import type { PublisherConfig } from "../types/interfaces.js";
+
+// Lint problem with its position inside the checked string (1-based)
+export interface CssLintError extends SchemaError {
+    line: number;
+    column: number;
+}
+
+// Properties that can run script in legacy browsers
+const DENIED_PROPERTIES = new Set(["behavior", "-moz-binding"]);
+
+// Functions that evaluate script (old IE)
+const DENIED_FUNCTIONS = new Set(["expression"]);
+
+// Functions taking URLs as plain strings, checked like url(). url() itself only parses
+// as a function when its name is escaped, as in u\72l("...").
+const URL_FUNCTIONS = new Set(["url", "image-set", "-webkit-image-set", "src"]);
+
+function locationAt(source: string, offset: number): { line: number; column: number } {
+    const before = source.slice(0, offset);
+    const lines = before.split("\n");
+    return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+function lintError(name: string, path: string, line: number, column: number, reason: string): CssLintError {
+    return { path, message: `${name} (line ${line}, column ${column}): ${reason}`, line, column };
+}
+
+// Identifiers are compared with their escapes decoded: browsers read @\69mport as @import
+function identName(name: string): string {
+    return csstree.ident.decode(name).toLowerCase();
+}
+
+function lowerFirst(message: string): string {
+    return message.charAt(0).toLowerCase() + message.slice(1);
+}
+
+// Only relative URLs and inline images may be referenced from publisher CSS
+function urlProblem(url: string): string | null {
+    const value = url.trim().toLowerCase();
+    if (value.startsWith("javascript:") || value.startsWith("vbscript:")) {
+        return "script URLs are not allowed";
+    }
+    if (value.startsWith("data:")) {
+        return value.startsWith("data:image/") && !value.startsWith("data:image/svg") ? null : "only data:image URLs (except SVG) are allowed";
+    }
+    if (/^[a-z][a-z0-9+.-]*:/.test(value) || value.startsWith("//")) {
+        return `external url() "${url}" is not allowed`;
+    }
+    return null;
+}
+
+// Parse a pages[].selector as a CSS selector list
+export function lintSelector(selector: string, path: string): CssLintError[] {
+    const name = path.replace(/^\$\.?/, "");
+    const errors: CssLintError[] = [];
+
+    try {
+        const ast = csstree.parse(selector, {
+            context: "selectorList",
+            positions: true,
+            onParseError: error => {
+                errors.push(lintError(name, path, error.line, error.column, `invalid selector, ${lowerFirst(error.message)}`));
+            }
+        });
+
+        // css-tree accepts a dangling combinator such as "div >"
+        csstree.walk(ast, {
+            visit: "Selector",
+            enter: node => {
+                const last = node.children.last;
+                if (last && last.type === "Combinator" && last.loc) {
+                    errors.push(lintError(name, path, last.loc.start.line, last.loc.start.column,
+                        `invalid selector, combinator "${last.name}" is not followed by a selector`));
+                }
+            }
+        });
+    } catch (error) {
+        const parseError = error as csstree.SyntaxParseError;
+        errors.push(lintError(name, path, parseError.line || 1, parseError.column || 1,
+            `invalid selector, ${lowerFirst(parseError.message)}`));
+    }
+
+    return errors;
+}
+
+// css-tree recovers from unclosed blocks silently, so count braces on the token stream
+function lintBraces(css: string, name: string, path: string): CssLintError[] {
+    const open: number[] = [];
+    const errors: CssLintError[] = [];
+
+    csstree.tokenize(css, (type, start) => {
+        if (type === csstree.tokenTypes.LeftCurlyBracket) {
+            open.push(start);
+        } else if (type === csstree.tokenTypes.RightCurlyBracket) {
+            if (open.length === 0) {
+                const { line, column } = locationAt(css, start);
+                errors.push(lintError(name, path, line, column, `unexpected "}"`));
+            } else {
+                open.pop();
+            }
+        }
+    });
+
+    for (const start of open) {
+        const { line, column } = locationAt(css, start);
+        errors.push(lintError(name, path, line, column, "unclosed block"));
+    }
+
+    return errors;
+}
+
+// Parse customCss as a stylesheet and check it against the denylist
+export function lintStylesheet(css: string, path: string): CssLintError[] {
+    const name = path.replace(/^\$\.?/, "");
+    const errors = lintBraces(css, name, path);
+
+    const ast = csstree.parse(css, {
+        positions: true,
+        onParseError: error => {
+            errors.push(lintError(name, path, error.line, error.column, lowerFirst(error.message)));
+        }
+    });
+
+    csstree.walk(ast, node => {
+        const start = node.loc?.start || { line: 1, column: 1 };
+
+        if (node.type === "Atrule" && identName(node.name) === "import") {
+            errors.push(lintError(name, path, start.line, start.column, "@import is not allowed"));
+        } else if (node.type === "Url") {
+            const problem = urlProblem(node.value);
+            if (problem) {
+                errors.push(lintError(name, path, start.line, start.column, problem));
+            }
+        } else if (node.type === "Function") {
+            const fn = identName(node.name);
+            if (DENIED_FUNCTIONS.has(fn)) {
+                errors.push(lintError(name, path, start.line, start.column, `${fn}() is not allowed`));
+            } else if (URL_FUNCTIONS.has(fn)) {
+                csstree.walk(node, child => {
+                    if (child.type === "String") {
+                        const problem = urlProblem(child.value);
+                        const childStart = child.loc?.start || start;
+                        if (problem) {
+                            errors.push(lintError(name, path, childStart.line, childStart.column, problem));
+                        }
+                    }
+                });
+            }
+        } else if (node.type === "Declaration" && DENIED_PROPERTIES.has(identName(node.property))) {
+            errors.push(lintError(name, path, start.line, start.column, `property "${identName(node.property)}" is not allowed`));
+        }
+    });
+
+    // A stray brace is reported by both the brace check and the parser, keep one error per position
+    const seen = new Set<string>();
+    return errors
+        .sort((a, b) => a.line - b.line || a.column - b.column)
+        .filter(error => {
+            const key = `${error.line}:${error.column}`;
+            if (seen.has(key)) {
+                return false;
+            }
+            seen.add(key);
+            return true;
+        });
+}
+
+// Lint every selector and the custom stylesheet of a config. Fields that are not
+// strings are left to the schema validation.
+export function lintPublisherCss(config: PublisherConfig): CssLintError[] {
+    const errors: CssLintError[] = [];
+
+    if (Array.isArray(config.pages)) {
+        config.pages.forEach((page, index) => {
+            if (page && typeof page.selector === "string" && page.selector.trim() !== "") {
+                errors.push(...lintSelector(page.selector, `$.pages[${index}].selector`));
+            }
+        });
+    }
+
+    if (typeof config.customCss === "string" && config.customCss.trim() !== "") {
+        errors.push(...lintStylesheet(config.customCss, "$.customCss"));
+    }
+
+    return errors;
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "@jest/globals";
+import { diffPublisherConfigs, diffLines } from "./diff.js";
+import type { PublisherConfig } from "../types/interfaces.js";
+
+const baseConfig: PublisherConfig = {
+  publisherId: "pub-aurora",
+  aliasName: "Aurora Media",
+  isActive: true,
+  pages: [
+    { pageType: "homepage", selector: "main", position: "top" },
+    { pageType: "text", selector: ".article-top", position: "sidebar" }
+  ],
+  publisherDashboard: "https://mixpanel.com/project/101/dashboards/5001",
+  monitorDashboard: "https://grafana.example.com/d/aur0ra01",
+  qaStatusDashboard: "https://internal.example.com/qa/aurora/status",
+  customCss: ".article-top { outline: 2px dashed #09f; }",
+  tags: ["news", "video"]
+};
+
+describe("diffPublisherConfigs", () => {
+  it("should report no changes for identical configs", () => {
+    const diff = diffPublisherConfigs(baseConfig, { ...baseConfig });
+    expect(diff.changed).toBe(false);
+    expect(diff.fields).toEqual([]);
+    expect(diff.pages).toEqual([]);
+    expect(diff.customCss).toBeNull();
+  });
+
+  it("should report scalar field changes, additions and removals", () => {
+    const { aliasName: _alias, ...withoutAlias } = baseConfig;
+    const diff = diffPublisherConfigs(baseConfig, { ...withoutAlias, isActive: false, notes: "paused" } as PublisherConfig);
+
+    expect(diff.changed).toBe(true);
+    expect(diff.fields).toEqual([
+      { path: "aliasName", type: "removed", before: "Aurora Media" },
+      { path: "isActive", type: "changed", before: true, after: false },
+      { path: "notes", type: "added", after: "paused" }
+    ]);
+  });
+
+  it("should match pages by pageType", () => {
+    const diff = diffPublisherConfigs(baseConfig, {
+      ...baseConfig,
+      pages: [
+        { pageType: "text", selector: ".article-top", position: "bottom" },
+        { pageType: "video", selector: "#player", position: "bottom" }
+      ]
+    });
+
+    expect(diff.pages).toEqual([
+      { pageType: "homepage", type: "removed", before: baseConfig.pages[0] },
+      {
+        pageType: "text",
+        type: "changed",
+        before: baseConfig.pages[1],
+        after: { pageType: "text", selector: ".article-top", position: "bottom" },
+        fields: [{ path: "pages[text].position", type: "changed", before: "sidebar", after: "bottom" }]
+      },
+      { pageType: "video", type: "added", after: { pageType: "video", selector: "#player", position: "bottom" } }
+    ]);
+  });
+
+  it("should report added and removed tags", () => {
+    const diff = diffPublisherConfigs(baseConfig, { ...baseConfig, tags: ["video", "sports"] });
+    expect(diff.tags).toEqual({ added: ["sports"], removed: ["news"] });
+  });
+
+  it("should not fail on malformed tags and pages", () => {
+    const malformed = { ...baseConfig, tags: 5, pages: [null, ...baseConfig.pages] } as unknown as PublisherConfig;
+    const diff = diffPublisherConfigs(baseConfig, malformed);
+    expect(diff.tags).toEqual({ added: [], removed: ["news", "video"] });
+    expect(diff.pages).toEqual([]);
+  });
+
+  it("should diff customCss line by line", () => {
+    const diff = diffPublisherConfigs(baseConfig, {
+      ...baseConfig,
+      customCss: ".article-top { outline: 2px dashed #09f; }\n.sidebar { display: none; }"
+    });
+    expect(diff.customCss?.lines).toEqual([{ type: "added", line: 2, text: ".sidebar { display: none; }" }]);
+  });
+});
+
+describe("diffLines", () => {
+  it("should report replaced lines as removed and added", () => {
+    expect(diffLines("a\nb\nc", "a\nx\nc")).toEqual([
+      { type: "removed", line: 2, text: "b" },
+      { type: "added", line: 2, text: "x" }
+    ]);
+  });
+});
@@ -0,0 +1,153 @@
+import type {
+    ConfigDiff,
+    ConfigValue,
+    CssLineChange,
+    FieldChange,
+    Page,
+    PageChange,
+    PublisherConfig
+} from "../types/interfaces.js";
+
+// Fields with a dedicated section in the diff
+const STRUCTURED_FIELDS = new Set(["pages", "tags", "customCss"]);
+
+// Above this many line pairs the customCss line diff is skipped (before/after are still returned)
+const MAX_CSS_DIFF_CELLS = 1_000_000;
+
+function isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffFields(before: Record<string, unknown>, after: Record<string, unknown>, prefix = ""): FieldChange[] {
+    const changes: FieldChange[] = [];
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    for (const key of keys) {
+        if (!prefix && STRUCTURED_FIELDS.has(key)) {
+            continue;
+        }
+        const path = prefix ? `${prefix}.${key}` : key;
+        const hasBefore = before[key] !== undefined;
+        const hasAfter = after[key] !== undefined;
+
+        if (hasBefore && !hasAfter) {
+            changes.push({ path, type: "removed", before: before[key] as ConfigValue });
+        } else if (!hasBefore && hasAfter) {
+            changes.push({ path, type: "added", after: after[key] as ConfigValue });
+        } else if (hasBefore && !isEqual(before[key], after[key])) {
+            changes.push({ path, type: "changed", before: before[key] as ConfigValue, after: after[key] as ConfigValue });
+        }
+    }
+
+    return changes;
+}
+
+// Key pages by pageType; repeated page types are told apart by their occurrence
+function keyPages(pages: Page[]): Map<string, Page> {
+    const keyed = new Map<string, Page>();
+    const seen = new Map<string, number>();
+
+    for (const page of pages) {
+        const count = seen.get(page.pageType) || 0;
+        seen.set(page.pageType, count + 1);
+        keyed.set(count === 0 ? page.pageType : `${page.pageType}#${count + 1}`, page);
+    }
+
+    return keyed;
+}
+
+function diffPages(before: Page[], after: Page[]): PageChange[] {
+    const beforePages = keyPages(before);
+    const afterPages = keyPages(after);
+    const changes: PageChange[] = [];
+
+    for (const [key, page] of beforePages) {
+        const next = afterPages.get(key);
+        if (!next) {
+            changes.push({ pageType: page.pageType, type: "removed", before: page });
+        } else if (!isEqual(page, next)) {
+            const fields = diffFields(
+                page as unknown as Record<string, unknown>,
+                next as unknown as Record<string, unknown>,
+                `pages[${key}]`
+            );
+            changes.push({ pageType: page.pageType, type: "changed", before: page, after: next, fields });
+        }
+    }
+
+    for (const [key, page] of afterPages) {
+        if (!beforePages.has(key)) {
+            changes.push({ pageType: page.pageType, type: "added", after: page });
+        }
+    }
+
+    return changes;
+}
+
+// Minimal line diff based on the longest common subsequence
+export function diffLines(before: string, after: string): CssLineChange[] | undefined {
+    const a = before === "" ? [] : before.split("\n");
+    const b = after === "" ? [] : after.split("\n");
+
+    if (a.length * b.length > MAX_CSS_DIFF_CELLS) {
+        return undefined;
+    }
+
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const changes: CssLineChange[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            i++;
+            j++;
+        } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+            changes.push({ type: "removed", line: i + 1, text: a[i] });
+            i++;
+        } else {
+            changes.push({ type: "added", line: j + 1, text: b[j] });
+            j++;
+        }
+    }
+
+    return changes;
+}
+
+// Drafts and stored files are not necessarily valid configs: entries that are not pages are left out
+function pagesOf(config: PublisherConfig): Page[] {
+    return Array.isArray(config.pages) ? config.pages.filter(page => page !== null && typeof page === "object") : [];
+}
+
+// Field-level diff of two configs. `pages` are matched by pageType, `tags` are
+// compared as sets and `customCss` gets a line diff.
+export function diffPublisherConfigs(before: PublisherConfig, after: PublisherConfig): ConfigDiff {
+    const fields = diffFields(before, after);
+    const pages = diffPages(pagesOf(before), pagesOf(after));
+
+    const beforeTags = new Set(Array.isArray(before.tags) ? before.tags : []);
+    const afterTags = new Set(Array.isArray(after.tags) ? after.tags : []);
+    const tags = {
+        added: [...afterTags].filter(tag => !beforeTags.has(tag)),
+        removed: [...beforeTags].filter(tag => !afterTags.has(tag))
+    };
+
+    const beforeCss = typeof before.customCss === "string" ? before.customCss : "";
+    const afterCss = typeof after.customCss === "string" ? after.customCss : "";
+    const customCss = beforeCss === afterCss
+        ? null
+        : { before: beforeCss, after: afterCss, lines: diffLines(beforeCss, afterCss) };
+
+    return {
+        changed: fields.length > 0 || pages.length > 0 || tags.added.length > 0 || tags.removed.length > 0 || customCss !== null,
+        fields,
+        pages,
+        tags,
+        customCss
+    };
+}
@@ -0,0 +1,217 @@
+import path from "path";
+import fs from "fs/promises";
+import { DATA_DIR } from "./paths.js";
+import { withFileLock, withFileLocks } from "./locks.js";
+import { writeFileAtomic } from "./storage.js";
+import { computeEtag, ifMatchSatisfied } from "./etag.js";
+import { serializeConfig } from "./repository.js";
+import type { PublisherConfig } from "../types/interfaces.js";
+
+// Unpublished changes of a config live in data/drafts/<name>.draft.json, shared by both
+// storage backends. The live config only changes when a draft is published.
+export const DRAFTS_DIR = path.join(DATA_DIR, "drafts");
+
+const DRAFT_FILE_PATTERN = /^([a-zA-Z0-9_-]+)\.draft\.json$/;
+
+export interface DraftApproval {
+    actor: string;
+    approvedAt: string;
+}
+
+export interface Draft {
+    filename: string;
+    config: PublisherConfig;
+    // ETag of the live config the draft was started from, null for a new publisher.
+    // Publishing fails when the live config has changed since.
+    baseEtag: string | null;
+    // Everyone who saved the draft; none of them can approve it
+    authors: string[];
+    updatedBy: string;
+    updatedAt: string;
+    // Approvals of the current content, cleared by every save
+    approvals: DraftApproval[];
+}
+
+// Whether publishing a draft needs the approval of a user who did not edit it
+// (PUBLISH_REQUIRES_APPROVAL=true)
+export function publishRequiresApproval(env: NodeJS.ProcessEnv = process.env): boolean {
+    return env.PUBLISH_REQUIRES_APPROVAL === "true";
+}
+
+function draftPath(filename: string): string {
+    return path.join(DRAFTS_DIR, `${path.basename(filename, ".json")}.draft.json`);
+}
+
+// Drafts have locks of their own: saving one does not wait for writes of the live config
+function lockName(filename: string): string {
+    return `${path.basename(filename, ".json")}.draft`;
+}
+
+export function draftEtag(draft: Draft): string {
+    return computeEtag(serializeConfig(draft.config));
+}
+
+export async function readDraft(filename: string): Promise<Draft | null> {
+    let data: string;
+    try {
+        data = await fs.readFile(draftPath(filename), "utf-8");
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException)?.code === "ENOENT") {
+            return null;
+        }
+        throw error;
+    }
+
+    try {
+        return JSON.parse(data) as Draft;
+    } catch {
+        throw new Error(`Failed to read the draft of ${filename} - file may be corrupted`);
+    }
+}
+
+// Configs with a draft, sorted by filename
+export async function listDraftFiles(): Promise<string[]> {
+    let entries: string[];
+    try {
+        entries = await fs.readdir(DRAFTS_DIR);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException)?.code === "ENOENT") {
+            return [];
+        }
+        throw error;
+    }
+
+    return entries
+        .map(entry => DRAFT_FILE_PATTERN.exec(entry))
+        .filter((match): match is RegExpExecArray => match !== null)
+        .map(match => `${match[1]}.json`)
+        .sort();
+}
+
+export async function listDrafts(): Promise<Draft[]> {
+    const drafts = await Promise.all((await listDraftFiles()).map(readDraft));
+    return drafts.filter((draft): draft is Draft => draft !== null);
+}
+
+async function writeDraft(draft: Draft): Promise<void> {
+    await fs.mkdir(DRAFTS_DIR, { recursive: true });
+    await writeFileAtomic(draftPath(draft.filename), JSON.stringify(draft, null, 2));
+}
+
+function checkDraftPrecondition(ifMatch: string | undefined, draft: Draft | null): void {
+    if (ifMatch !== undefined && !ifMatchSatisfied(ifMatch, draft ? draftEtag(draft) : null)) {
+        throw new Error("Precondition failed");
+    }
+}
+
+// Save the draft of a config. A new draft starts from the live config `liveEtag`
+// identifies; saving an existing one keeps its base and clears its approvals.
+export async function saveDraft(
+    filename: string,
+    config: PublisherConfig,
+    options: { actor: string; liveEtag: string | null; ifMatch?: string }
+): Promise<Draft> {
+    return withFileLock(lockName(filename), async () => {
+        const existing = await readDraft(filename);
+        checkDraftPrecondition(options.ifMatch, existing);
+
+        const draft: Draft = {
+            filename,
+            config,
+            baseEtag: existing ? existing.baseEtag : options.liveEtag,
+            authors: existing && existing.authors.includes(options.actor) ? existing.authors : [...(existing?.authors ?? []), options.actor],
+            updatedBy: options.actor,
+            updatedAt: new Date().toISOString(),
+            approvals: []
+        };
+        await writeDraft(draft);
+        return draft;
+    });
+}
+
+// Approve the current content of a draft. Fails with "Draft not found", "Precondition
+// failed" or "Draft authors cannot approve their own changes".
+export async function approveDraft(filename: string, options: { actor: string; ifMatch?: string }): Promise<Draft> {
+    return withFileLock(lockName(filename), async () => {
+        const draft = await readDraft(filename);
+        if (!draft) {
+            throw new Error("Draft not found");
+        }
+        checkDraftPrecondition(options.ifMatch, draft);
+        if (draft.authors.includes(options.actor)) {
+            throw new Error("Draft authors cannot approve their own changes");
+        }
+
+        if (!draft.approvals.some(approval => approval.actor === options.actor)) {
+            draft.approvals.push({ actor: options.actor, approvedAt: new Date().toISOString() });
+            await writeDraft(draft);
+        }
+        return draft;
+    });
+}
+
+// Why a draft cannot be published yet, or null when it can
+export function publishBlocker(draft: Draft, requireApproval: boolean): string | null {
+    if (requireApproval && draft.approvals.length === 0) {
+        return "The draft needs the approval of a user who did not edit it";
+    }
+    return null;
+}
+
+// Run `publish` on the draft of a config and remove the draft when it reports it was
+// published; a rejected draft is kept so it can be fixed. The draft lock is held throughout,
+// so the content published is the content checked. Fails with "Draft not found" and
+// "Precondition failed" (ifMatch does not match the draft).
+export async function publishDraft<T extends { published: boolean }>(
+    filename: string,
+    ifMatch: string | undefined,
+    publish: (draft: Draft) => Promise<T>
+): Promise<T> {
+    return withFileLock(lockName(filename), async () => {
+        const draft = await readDraft(filename);
+        if (!draft) {
+            throw new Error("Draft not found");
+        }
+        checkDraftPrecondition(ifMatch, draft);
+
+        const result = await publish(draft);
+        if (result.published) {
+            await removeDraftFile(filename);
+        }
+        return result;
+    });
+}
+
+async function removeDraftFile(filename: string): Promise<void> {
+    try {
+        await fs.unlink(draftPath(filename));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException)?.code !== "ENOENT") {
+            throw error;
+        }
+    }
+}
+
+// Discard the draft of a config. Returns the discarded draft, null when there was none.
+export async function discardDraft(filename: string, ifMatch?: string): Promise<Draft | null> {
+    return withFileLock(lockName(filename), async () => {
+        const draft = await readDraft(filename);
+        checkDraftPrecondition(ifMatch, draft);
+        if (draft) {
+            await removeDraftFile(filename);
+        }
+        return draft;
+    });
+}
+
+// Move the draft of a renamed config to its new name
+export async function moveDraft(from: string, to: string): Promise<void> {
+    await withFileLocks([lockName(from), lockName(to)], async () => {
+        const draft = await readDraft(from);
+        if (!draft) {
+            return;
+        }
+        await writeDraft({ ...draft, filename: to });
+        await removeDraftFile(from);
+    });
+}
@@ -0,0 +1,21 @@
+import { createHash } from "crypto";
+
+// Strong ETag of a stored file's exact content
+export function computeEtag(content: string | Buffer): string {
+    return `"${createHash("sha256").update(content).digest("base64url").slice(0, 27)}"`;
+}
+
+// Check an If-Match header against the ETag of the current content (null if the
+// resource does not exist). Weak validators never match, as required by RFC 9110.
+export function ifMatchSatisfied(ifMatch: string, currentEtag: string | null): boolean {
+    if (currentEtag === null) {
+        return false;
+    }
+    if (ifMatch.trim() === "*") {
+        return true;
+    }
+    return ifMatch
+        .split(",")
+        .map(tag => tag.trim())
+        .some(tag => !tag.startsWith("W/") && tag === currentEtag);
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "@jest/globals";
+import { eventsSince, formatEvent, publishEvent, subscribeEvents } from "./events.js";
+
+const change = (filename: string) => ({ type: "updated" as const, filename, item: null, etag: null, actor: "alice" });
+
+describe("events", () => {
+  it("should resume after the last event a client received", () => {
+    const first = publishEvent(change("a.json"));
+    const second = publishEvent(change("b.json"));
+    const third = publishEvent(change("c.json"));
+
+    expect(eventsSince(first.id)).toEqual([second, third]);
+    expect(eventsSince(third.id)).toEqual([]);
+    // IDs of another stream (e.g. before a restart) cannot be resumed
+    expect(eventsSince("0badcafe-1")).toBeNull();
+    expect(eventsSince("not an id")).toBeNull();
+  });
+
+  it("should send new events to the subscribers until they unsubscribe", () => {
+    const received: string[] = [];
+    const unsubscribe = subscribeEvents(event => received.push(event.filename));
+
+    publishEvent(change("a.json"));
+    unsubscribe();
+    publishEvent(change("b.json"));
+
+    expect(received).toEqual(["a.json"]);
+  });
+
+  it("should format events for text/event-stream", () => {
+    const event = publishEvent(change("a.json"));
+    expect(formatEvent(event)).toBe(`id: ${event.id}\nevent: updated\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+});
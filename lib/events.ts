@@ -0,0 +1,84 @@
+import crypto from "crypto";
+import type { PublisherListItem } from "../types/interfaces.js";
+
+// Changes of publisher configs for the live stream of GET /api/events. Events only exist
+// in the process that made the change; with several instances behind a load balancer each
+// stream sees the writes of its own instance.
+
+export type PublisherEventType = "created" | "updated" | "deleted";
+
+export interface PublisherEvent {
+    // "<stream>-<sequence>", sent as the SSE id so clients can resume with Last-Event-ID
+    id: string;
+    type: PublisherEventType;
+    filename: string;
+    // Filename before a rename
+    previousFilename?: string;
+    publisherId?: string;
+    // List entry after the change, null after a delete
+    item: PublisherListItem | null;
+    // ETag of the stored config after the change, null after a delete
+    etag: string | null;
+    actor: string;
+    occurredAt: string;
+}
+
+type Listener = (event: PublisherEvent) => void;
+
+// Events kept for clients resuming with Last-Event-ID
+const BUFFER_SIZE = Number(process.env.EVENTS_BUFFER_SIZE) || 1000;
+
+// Identifies this process's sequence: an ID from another stream cannot be resumed
+const STREAM_ID = crypto.randomBytes(4).toString("hex");
+
+let sequence = 0;
+const buffer: PublisherEvent[] = [];
+const listeners = new Set<Listener>();
+
+export function publishEvent(event: Omit<PublisherEvent, "id" | "occurredAt">): PublisherEvent {
+    const published: PublisherEvent = { id: `${STREAM_ID}-${++sequence}`, ...event, occurredAt: new Date().toISOString() };
+    buffer.push(published);
+    if (buffer.length > BUFFER_SIZE) {
+        buffer.shift();
+    }
+    for (const listener of listeners) {
+        try {
+            listener(published);
+        } catch (error) {
+            console.error("Failed to send event:", error);
+        }
+    }
+    return published;
+}
+
+// Call `listener` with every event published from now on. Returns the unsubscribe function.
+export function subscribeEvents(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+// Events published after `lastEventId`, or null when they cannot be told: the ID comes
+// from another stream (a restart or another instance) or is older than the buffer
+export function eventsSince(lastEventId: string): PublisherEvent[] | null {
+    const match = /^([0-9a-f]+)-(\d+)$/.exec(lastEventId);
+    if (!match || match[1] !== STREAM_ID) {
+        return null;
+    }
+    const last = Number(match[2]);
+    if (last > sequence) {
+        return null;
+    }
+    const missed = buffer.filter(event => Number(event.id.slice(STREAM_ID.length + 1)) > last);
+    // Some events in between have already left the buffer
+    if (last < sequence && (missed.length === 0 || missed[0].id !== `${STREAM_ID}-${last + 1}`)) {
+        return null;
+    }
+    return missed;
+}
+
+// Event stream format (text/event-stream) of an event
+export function formatEvent(event: PublisherEvent): string {
+    return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
@@ -0,0 +1,143 @@
+import path from "path";
+import fs from "fs/promises";
+import { DATA_DIR, validateFilename } from "./paths.js";
+import { writeFileAtomic, type FileChange } from "./storage.js";
+import type {
+    PublisherConfig,
+    PublisherRevision,
+    PublisherRevisionSummary,
+    RevisionAction
+} from "../types/interfaces.js";
+
+// Revisions live in data/history/<config name>/<revision>.json
+export const HISTORY_DIR = path.join(DATA_DIR, "history");
+
+const REVISION_FILE_PATTERN = /^(\d+)\.json$/;
+
+function historyDirFor(filename: string): string {
+    return path.join(HISTORY_DIR, path.basename(filename, ".json"));
+}
+
+function revisionPath(filename: string, revision: number): string {
+    return path.join(historyDirFor(filename), `${String(revision).padStart(6, "0")}.json`);
+}
+
+async function listRevisionNumbers(filename: string): Promise<number[]> {
+    let entries: string[];
+    try {
+        entries = await fs.readdir(historyDirFor(filename));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException)?.code === "ENOENT") {
+            return [];
+        }
+        throw error;
+    }
+
+    return entries
+        .map(entry => REVISION_FILE_PATTERN.exec(entry))
+        .filter((match): match is RegExpExecArray => match !== null)
+        .map(match => Number(match[1]))
+        .sort((a, b) => a - b);
+}
+
+// Store a new immutable revision of a config. Must be called under the file lock
+// of `filename` so revision numbers are not handed out twice.
+export async function recordRevision(
+    filename: string,
+    config: PublisherConfig,
+    action: RevisionAction,
+    actor: string
+): Promise<PublisherRevisionSummary> {
+    const revisions = await listRevisionNumbers(filename);
+    const revision = (revisions.length > 0 ? revisions[revisions.length - 1] : 0) + 1;
+
+    const entry: PublisherRevision = {
+        revision,
+        filename,
+        publisherId: config.publisherId,
+        action,
+        actor,
+        timestamp: new Date().toISOString(),
+        config
+    };
+
+    await fs.mkdir(historyDirFor(filename), { recursive: true });
+    // Exclusive, so an existing revision is never overwritten
+    await writeFileAtomic(revisionPath(filename, revision), JSON.stringify(entry, null, 2), { exclusive: true });
+
+    const { config: _config, ...summary } = entry;
+    return summary;
+}
+
+// Read a single revision, or null if it does not exist
+export async function getRevision(filename: string, revision: number): Promise<PublisherRevision | null> {
+    try {
+        const data = await fs.readFile(revisionPath(filename, revision), "utf-8");
+        return JSON.parse(data) as PublisherRevision;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException)?.code === "ENOENT") {
+            return null;
+        }
+        throw error;
+    }
+}
+
+// List revision metadata of a config, newest first
+export async function listRevisions(filename: string): Promise<PublisherRevisionSummary[]> {
+    const revisions = await listRevisionNumbers(filename);
+    const summaries: PublisherRevisionSummary[] = [];
+
+    for (const revision of revisions.reverse()) {
+        const entry = await getRevision(filename, revision);
+        if (entry) {
+            const { config: _config, ...summary } = entry;
+            summaries.push(summary);
+        }
+    }
+
+    return summaries;
+}
+
+// File changes moving the history of a renamed config to its new name, to be committed
+// together with the rename. Revisions are rewritten with the new filename, as the SQLite
+// backend does. Must be called under the file locks of both names.
+export async function historyMoveChanges(from: string, to: string): Promise<FileChange[]> {
+    const changes: FileChange[] = [];
+    for (const revision of await listRevisionNumbers(from)) {
+        const entry = await getRevision(from, revision);
+        if (entry) {
+            changes.push(
+                { path: revisionPath(to, revision), content: JSON.stringify({ ...entry, filename: to }, null, 2) },
+                { path: revisionPath(from, revision), content: null }
+            );
+        }
+    }
+    if (changes.length > 0) {
+        await fs.mkdir(historyDirFor(to), { recursive: true });
+    }
+    return changes;
+}
+
+// Remove the history directory of a config once a committed move left it empty
+export async function removeEmptyHistory(filename: string): Promise<void> {
+    try {
+        await fs.rmdir(historyDirFor(filename));
+    } catch {
+        // Not empty or already gone
+    }
+}
+
+// Configs that have a history, including deleted ones
+export async function listHistoryFiles(): Promise<string[]> {
+    let entries: string[];
+    try {
+        entries = await fs.readdir(HISTORY_DIR);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException)?.code === "ENOENT") {
+            return [];
+        }
+        throw error;
+    }
+
+    return entries.map(entry => `${entry}.json`).filter(validateFilename).sort();
+}
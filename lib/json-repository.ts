@@ -0,0 +1,270 @@
+import path from "path";
+import fs from "fs/promises";
+import { DATA_DIR } from "./paths.js";
+import { logAction } from "./logger.js";
+import { withFileLock, withFileLocks } from "./locks.js";
+import { recoverJournal } from "./storage.js";
+import { PUBLISHERS_FILE, readPublishersList, toListItem, updatePublishersList, type PublishersList } from "./publishers-list.js";
+import { getRevision, historyMoveChanges, listRevisions, recordRevision, removeEmptyHistory } from "./history.js";
+import {
+    assertPublisherIdAvailable,
+    changesPublisherId,
+    checkPrecondition,
+    serializeConfig,
+    type PublisherRepository
+} from "./repository.js";
+import type { PublisherConfig, PublisherListItem } from "../types/interfaces.js";
+
+function configPath(filename: string): string {
+    return path.join(DATA_DIR, filename);
+}
+
+async function readContent(filename: string): Promise<string | null> {
+    try {
+        return await fs.readFile(configPath(filename), "utf-8");
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (errorMessage.includes("ENOENT")) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+async function exists(filename: string): Promise<boolean> {
+    try {
+        await fs.access(configPath(filename));
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Replace the list entry of a saved config. The entry keeps its ID unless the save changes
+// the publisherId of the config (`previousContent`). A config missing from the index is
+// added instead of being left orphaned.
+function upsertListItem(publishersList: PublishersList, filename: string, config: PublisherConfig, previousContent: string | null): PublisherListItem {
+    const publisherIndex = publishersList.publishers.findIndex(p => p.file === filename);
+    const existing = publishersList.publishers[publisherIndex];
+    const renamed = changesPublisherId(previousContent, config);
+    if (renamed) {
+        assertPublisherIdAvailable(publishersList.publishers, config.publisherId, filename);
+    }
+    const updatedItem = existing && !renamed ? { ...toListItem(filename, config), id: existing.id } : toListItem(filename, config);
+
+    if (publisherIndex !== -1) {
+        publishersList.publishers[publisherIndex] = updatedItem;
+    } else {
+        publishersList.publishers.push(updatedItem);
+    }
+    return updatedItem;
+}
+
+// One JSON file per publisher in data/, listed in data/publishers.json, with revisions
+// in data/history. Writes of a publisher are serialized by its file lock (shared by all
+// processes using data/) and commit the config and publishers.json through the write-ahead journal.
+export function createJsonRepository(): PublisherRepository {
+    return {
+        backend: "json",
+
+        async init() {
+            // Journals are written under the publishers.json lock, so another instance
+            // cannot be in the middle of one while recovery holds it
+            const rolledBack = await withFileLock(PUBLISHERS_FILE, recoverJournal);
+            if (rolledBack.length > 0) {
+                console.warn(`Rolled back ${rolledBack.length} interrupted write(s)`);
+                await logAction("RECOVER_JOURNAL", { rolledBack });
+            }
+        },
+
+        async isAvailable() {
+            try {
+                await fs.access(DATA_DIR);
+                return true;
+            } catch {
+                return false;
+            }
+        },
+
+        // Every write replaces files in data/ by renaming temp files over them, which changes
+        // the modification time of the directory, and publishers.json with it for most writes
+        async version() {
+            try {
+                const [list, dir] = await Promise.all([fs.stat(path.join(DATA_DIR, PUBLISHERS_FILE)), fs.stat(DATA_DIR)]);
+                return `${list.mtimeMs}:${list.size}:${dir.mtimeMs}`;
+            } catch {
+                return null;
+            }
+        },
+
+        async list() {
+            return (await readPublishersList()).publishers;
+        },
+
+        async get(filename) {
+            const content = await readContent(filename);
+            return content === null ? null : { config: JSON.parse(content), content };
+        },
+
+        exists,
+
+        async create(filename, config, { actor }) {
+            const content = serializeConfig(config);
+
+            return withFileLock(filename, async () => {
+                // Double-check after acquiring lock
+                if (await exists(filename)) {
+                    throw new Error("Publisher config already exists");
+                }
+
+                const item = await updatePublishersList(publishersList => {
+                    assertPublisherIdAvailable(publishersList.publishers, config.publisherId, filename);
+                    const newItem = toListItem(filename, config);
+                    publishersList.publishers.push(newItem);
+                    return newItem;
+                }, [{ path: configPath(filename), content }]);
+
+                const revision = await recordRevision(filename, config, "create", actor);
+                return { item, content, previousContent: null, revision };
+            });
+        },
+
+        async update(filename, config, { actor, ifMatch }) {
+            const content = serializeConfig(config);
+
+            return withFileLock(filename, async () => {
+                const previousContent = await readContent(filename);
+                checkPrecondition(ifMatch, previousContent);
+
+                const item = await updatePublishersList(
+                    publishersList => upsertListItem(publishersList, filename, config, previousContent),
+                    [{ path: configPath(filename), content }]
+                );
+
+                const revision = await recordRevision(filename, config, "update", actor);
+                return { item, content, previousContent, revision };
+            });
+        },
+
+        async delete(filename, { actor, ifMatch }) {
+            return withFileLock(filename, async () => {
+                const content = await readContent(filename);
+                if (content === null) {
+                    throw new Error("Publisher config not found");
+                }
+                checkPrecondition(ifMatch, content);
+
+                // Keep the deleted content as a revision so it can be restored later
+                const revision = await recordRevision(filename, JSON.parse(content), "delete", actor);
+
+                await updatePublishersList(publishersList => {
+                    publishersList.publishers = publishersList.publishers.filter(p => p.file !== filename);
+                }, [{ path: configPath(filename), content: null }]);
+
+                return { content, revision };
+            });
+        },
+
+        async updateMany(updates, { actor, files = [] }) {
+            // Every file stays locked until all of them are committed with publishers.json
+            return withFileLocks(updates.map(update => update.filename), async () => {
+                const previousContents: (string | null)[] = [];
+                for (const { filename, ifMatch } of updates) {
+                    const previousContent = await readContent(filename);
+                    checkPrecondition(ifMatch, previousContent);
+                    previousContents.push(previousContent);
+                }
+
+                const contents = updates.map(({ config }) => serializeConfig(config));
+                const items = await updatePublishersList(
+                    publishersList => updates.map(({ filename, config }, i) => upsertListItem(publishersList, filename, config, previousContents[i])),
+                    [...updates.map(({ filename }, i) => ({ path: configPath(filename), content: contents[i] })), ...files]
+                );
+
+                const results = [];
+                for (let i = 0; i < updates.length; i++) {
+                    const revision = await recordRevision(updates[i].filename, updates[i].config, "update", actor);
+                    results.push({ item: items[i], content: contents[i], previousContent: previousContents[i], revision });
+                }
+                return results;
+            });
+        },
+
+        async rename(filename, target, { actor, ifMatch }) {
+            return withFileLocks([filename, target.filename], async () => {
+                const previousContent = await readContent(filename);
+                if (previousContent === null) {
+                    throw new Error("Publisher config not found");
+                }
+                checkPrecondition(ifMatch, previousContent);
+
+                const moved = target.filename !== filename;
+                if (moved && (await exists(target.filename) || (await listRevisions(target.filename)).length > 0)) {
+                    throw new Error("Publisher config already exists");
+                }
+
+                const config: PublisherConfig = { ...JSON.parse(previousContent), publisherId: target.publisherId };
+                const content = serializeConfig(config);
+                // The history moves in the same journaled commit as the config
+                const historyChanges = moved ? await historyMoveChanges(filename, target.filename) : [];
+
+                const item = await updatePublishersList(publishersList => {
+                    const existing = publishersList.publishers.find(p => p.file === filename);
+                    const renamed = changesPublisherId(previousContent, config);
+                    if (renamed) {
+                        assertPublisherIdAvailable(publishersList.publishers, config.publisherId, filename);
+                    }
+                    const movedItem = existing && !renamed
+                        ? { ...toListItem(target.filename, config), id: existing.id }
+                        : toListItem(target.filename, config);
+                    publishersList.publishers = [
+                        ...publishersList.publishers.filter(p => p.file !== filename && p.file !== target.filename),
+                        movedItem
+                    ];
+                    return movedItem;
+                }, [
+                    { path: configPath(target.filename), content },
+                    ...(moved ? [{ path: configPath(filename), content: null }] : []),
+                    ...historyChanges
+                ]);
+
+                if (moved) {
+                    await removeEmptyHistory(filename);
+                }
+                const revision = await recordRevision(target.filename, config, "rename", actor);
+                return { item, content, previousContent, revision };
+            });
+        },
+
+        listRevisions,
+        getRevision,
+
+        async restore(filename, revisionNumber, { actor }) {
+            return withFileLock(filename, async () => {
+                const previousContent = await readContent(filename);
+                const entry = await getRevision(filename, revisionNumber);
+                if (!entry) {
+                    throw new Error("Revision not found");
+                }
+                const config = entry.config;
+                const content = serializeConfig(config);
+
+                const item = await updatePublishersList(publishersList => {
+                    // The restored publisherId must not be taken by another file in the meantime
+                    assertPublisherIdAvailable(publishersList.publishers, config.publisherId, filename);
+
+                    // Restoring a deleted config brings its index entry back as well
+                    const restoredItem = toListItem(filename, config);
+                    publishersList.publishers = [
+                        ...publishersList.publishers.filter(p => p.file !== filename),
+                        restoredItem
+                    ];
+                    return restoredItem;
+                }, [{ path: configPath(filename), content }]);
+
+                const revision = await recordRevision(filename, config, "restore", actor);
+                return { item, content, previousContent, revision };
+            });
+        }
+    };
+}
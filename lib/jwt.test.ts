@@ -0,0 +1,109 @@
+import { describe, it, expect, jest, beforeEach } from "@jest/globals";
+import fs from "fs/promises";
+import crypto from "crypto";
+import { createJwtAuthenticator, jwtOptionsFromEnv, type JwtOptions } from "./jwt.js";
+
+jest.mock("fs/promises");
+const mockedFs = jest.mocked(fs);
+
+const rsa = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+const ec = crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+const jwks = {
+  keys: [
+    { ...rsa.publicKey.export({ format: "jwk" }), kid: "rsa-1", use: "sig", alg: "RS256" },
+    { ...ec.publicKey.export({ format: "jwk" }), kid: "ec-1", alg: "ES256" }
+  ]
+};
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+// Sign a token the way an identity provider would
+const sign = (claims: object, header: object = { alg: "RS256", kid: "rsa-1" }) => {
+  const unsigned = `${encode({ typ: "JWT", ...header })}.${encode(claims)}`;
+  const alg = (header as { alg: string }).alg;
+  const signature = alg === "ES256"
+    ? crypto.sign("sha256", Buffer.from(unsigned), { key: ec.privateKey, dsaEncoding: "ieee-p1363" })
+    : crypto.sign("sha256", Buffer.from(unsigned), rsa.privateKey);
+  return `${unsigned}.${signature.toString("base64url")}`;
+};
+
+const now = () => Math.floor(Date.now() / 1000);
+const claims = (extra: object = {}) => ({
+  sub: "u-123",
+  email: "alice@example.com",
+  iss: "https://sso.example.com",
+  aud: "config-tool",
+  exp: now() + 300,
+  role: "editor",
+  ...extra
+});
+
+const options = (extra: Partial<JwtOptions> = {}): JwtOptions => ({
+  ...jwtOptionsFromEnv({ JWT_JWKS_FILE: "/etc/config-tool/jwks.json", JWT_ISSUER: "https://sso.example.com", JWT_AUDIENCE: "config-tool" })!,
+  ...extra
+});
+
+beforeEach(() => {
+  jest.spyOn(fs, "readFile").mockClear().mockResolvedValue(JSON.stringify(jwks));
+});
+
+describe("jwtOptionsFromEnv", () => {
+  it("should be disabled without a JWKS source and reject invalid role maps", () => {
+    expect(jwtOptionsFromEnv({})).toBeNull();
+    expect(() => jwtOptionsFromEnv({ JWT_JWKS_URL: "http://localhost:4000/jwks", JWT_ROLE_MAP: "{\"sso-admins\":\"root\"}" }))
+      .toThrow('JWT_ROLE_MAP maps "sso-admins" to an unknown role');
+  });
+});
+
+describe("createJwtAuthenticator", () => {
+  it("should turn a valid token into a principal", async () => {
+    const authenticator = createJwtAuthenticator(options());
+
+    expect(await authenticator.authenticate(sign(claims()))).toEqual({ name: "alice@example.com", role: "editor", subject: "u-123" });
+    expect(await authenticator.authenticate(sign(claims({ role: "viewer" }), { alg: "ES256", kid: "ec-1" })))
+      .toMatchObject({ role: "viewer" });
+    expect(mockedFs.readFile).toHaveBeenCalledTimes(1);
+  });
+
+  it("should map SSO groups to the highest role and read the publisher scope", async () => {
+    const authenticator = createJwtAuthenticator(options({
+      roleClaim: "realm_access.roles",
+      roleMap: { "config-editors": "editor", "config-admins": "admin" }
+    }));
+    const token = sign(claims({
+      role: undefined,
+      realm_access: { roles: ["offline_access", "config-editors", "config-admins"] },
+      publisher_scope: { files: ["publisher-aurora*.json"] }
+    }));
+
+    expect(await authenticator.authenticate(token)).toMatchObject({ role: "admin", scope: { files: ["publisher-aurora*.json"] } });
+    await expect(authenticator.authenticate(sign(claims({ role: "constructor" })))).rejects.toThrow("Token grants no role");
+  });
+
+  it("should reject tampered, expired and foreign tokens", async () => {
+    const authenticator = createJwtAuthenticator(options());
+    const [header, , signature] = sign(claims()).split(".");
+
+    await expect(authenticator.authenticate(`${header}.${encode(claims({ role: "admin" }))}.${signature}`)).rejects.toThrow("Invalid token: bad signature");
+    await expect(authenticator.authenticate(sign(claims({ exp: now() - 120 })))).rejects.toThrow("Invalid token: expired");
+    await expect(authenticator.authenticate(sign(claims({ iss: "https://evil.example.com" })))).rejects.toThrow("Invalid token: unexpected issuer");
+    await expect(authenticator.authenticate(sign(claims({ aud: ["other-app"] })))).rejects.toThrow("Invalid token: unexpected audience");
+    await expect(authenticator.authenticate(sign(claims(), { alg: "HS256", kid: "rsa-1" }))).rejects.toThrow("Invalid token: unsupported algorithm HS256");
+    await expect(authenticator.authenticate(sign(claims(), { alg: "RS256", kid: "unknown" }))).rejects.toThrow("Invalid token: unknown signing key");
+    await expect(authenticator.authenticate("not-a-token")).rejects.toThrow("Invalid token: malformed");
+  });
+
+  it("should fetch the key set from a URL and report it when unreachable", async () => {
+    const fetchMock = jest.spyOn(globalThis, "fetch").mockResolvedValueOnce(new Response(JSON.stringify(jwks)));
+    const authenticator = createJwtAuthenticator(options({ jwksFile: undefined, jwksUrl: "http://localhost:4000/jwks" }));
+
+    expect(await authenticator.authenticate(sign(claims()))).toMatchObject({ role: "editor" });
+    expect(fetchMock).toHaveBeenCalledWith("http://localhost:4000/jwks", expect.anything());
+
+    fetchMock.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+    const unreachable = createJwtAuthenticator(options({ jwksFile: undefined, jwksUrl: "http://localhost:4000/jwks" }));
+    await expect(unreachable.authenticate(sign(claims()))).rejects.toThrow("JWKS unavailable: ECONNREFUSED");
+
+    fetchMock.mockRestore();
+  });
+});
@@ -0,0 +1,255 @@
+import fs from "fs/promises";
+import crypto from "crypto";
+import { ROLES, isRole, parsePublisherScope, type Principal, type Role } from "./auth.js";
+
+// Bearer token settings (JWT_* environment variables)
+export interface JwtOptions {
+    // Where the signing keys come from: a JWKS document on disk or served over HTTP(S)
+    jwksFile?: string;
+    jwksUrl?: string;
+    // Expected "iss" and "aud" claims, not checked when unset
+    issuer?: string;
+    audience?: string;
+    // Claims holding the display name, the role(s) and the publisher scope.
+    // Dotted paths reach nested claims, e.g. "realm_access.roles".
+    nameClaim: string;
+    roleClaim: string;
+    scopeClaim: string;
+    // Claim values (e.g. SSO groups) mapped to roles; role names map to themselves
+    roleMap: Record<string, Role>;
+    // Accepted clock difference with the identity provider, in seconds
+    clockTolerance: number;
+}
+
+interface Jwk extends crypto.JsonWebKey {
+    kid?: string;
+    use?: string;
+    alg?: string;
+}
+
+// How long a fetched key set is used before it is loaded again
+const JWKS_TTL_MS = 10 * 60 * 1000;
+// Minimum time between reloads triggered by a token signed with an unknown key
+const JWKS_MIN_RELOAD_MS = 30 * 1000;
+
+// Signature algorithms with their digest; HMAC and "none" are never accepted
+const ALGORITHMS: Record<string, { hash: string; type: "RSA" | "PSS" | "EC" }> = {
+    RS256: { hash: "sha256", type: "RSA" },
+    RS384: { hash: "sha384", type: "RSA" },
+    RS512: { hash: "sha512", type: "RSA" },
+    PS256: { hash: "sha256", type: "PSS" },
+    PS384: { hash: "sha384", type: "PSS" },
+    PS512: { hash: "sha512", type: "PSS" },
+    ES256: { hash: "sha256", type: "EC" },
+    ES384: { hash: "sha384", type: "EC" },
+    ES512: { hash: "sha512", type: "EC" }
+};
+
+// Read the JWT settings. Returns null when bearer tokens are not enabled (no JWKS source).
+export function jwtOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): JwtOptions | null {
+    if (!env.JWT_JWKS_FILE && !env.JWT_JWKS_URL) {
+        return null;
+    }
+
+    let roleMap: Record<string, Role> = {};
+    if (env.JWT_ROLE_MAP) {
+        try {
+            roleMap = JSON.parse(env.JWT_ROLE_MAP);
+        } catch {
+            throw new Error("JWT_ROLE_MAP must be a JSON object, e.g. {\"config-admins\":\"admin\"}");
+        }
+        const invalid = Object.entries(roleMap).find(([, role]) => !isRole(role));
+        if (invalid) {
+            throw new Error(`JWT_ROLE_MAP maps "${invalid[0]}" to an unknown role, expected ${ROLES.join(", ")}`);
+        }
+    }
+
+    return {
+        jwksFile: env.JWT_JWKS_FILE || undefined,
+        jwksUrl: env.JWT_JWKS_FILE ? undefined : env.JWT_JWKS_URL,
+        issuer: env.JWT_ISSUER || undefined,
+        audience: env.JWT_AUDIENCE || undefined,
+        nameClaim: env.JWT_NAME_CLAIM || "email",
+        roleClaim: env.JWT_ROLE_CLAIM || "role",
+        scopeClaim: env.JWT_SCOPE_CLAIM || "publisher_scope",
+        roleMap,
+        clockTolerance: Number(env.JWT_CLOCK_TOLERANCE) || 30
+    };
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+    const value = JSON.parse(Buffer.from(segment, "base64url").toString("utf-8"));
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+        throw new Error("not an object");
+    }
+    return value;
+}
+
+function claimAt(claims: Record<string, unknown>, claimPath: string): unknown {
+    return claimPath.split(".").reduce<unknown>(
+        (value, key) => value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined,
+        claims
+    );
+}
+
+// Highest role granted by the role claim (a string or a list of strings)
+function roleFromClaim(value: unknown, roleMap: Record<string, Role>): Role | null {
+    const values = Array.isArray(value) ? value : [value];
+    const roles = values
+        .filter((entry): entry is string => typeof entry === "string")
+        .map(entry => Object.prototype.hasOwnProperty.call(roleMap, entry) ? roleMap[entry] : isRole(entry) ? entry : null)
+        .filter((role): role is Role => role !== null);
+    return roles.length > 0 ? roles.reduce((a, b) => ROLES.indexOf(a) >= ROLES.indexOf(b) ? a : b) : null;
+}
+
+// Verifies bearer tokens and turns their claims into a principal. Errors start with
+// "Invalid token" (401), "Token grants no role" (403) or "JWKS unavailable" (503).
+export interface JwtAuthenticator {
+    authenticate(token: string): Promise<Principal>;
+}
+
+export function createJwtAuthenticator(options: JwtOptions): JwtAuthenticator {
+    let keys: Jwk[] = [];
+    let loadedAt = 0;
+    let loading: Promise<void> | null = null;
+
+    async function fetchKeySet(): Promise<unknown> {
+        if (options.jwksFile) {
+            return JSON.parse(await fs.readFile(options.jwksFile, "utf-8"));
+        }
+        const response = await fetch(options.jwksUrl!, { signal: AbortSignal.timeout(5000) });
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+        }
+        return response.json();
+    }
+
+    async function loadKeys(): Promise<void> {
+        loading ||= (async () => {
+            try {
+                const keySet = await fetchKeySet() as { keys?: unknown };
+                if (!keySet || !Array.isArray(keySet.keys)) {
+                    throw new Error("no keys array");
+                }
+                keys = keySet.keys;
+                loadedAt = Date.now();
+            } catch (error) {
+                throw new Error(`JWKS unavailable: ${error instanceof Error ? error.message : "Unknown error"}`);
+            } finally {
+                loading = null;
+            }
+        })();
+        return loading;
+    }
+
+    function findKey(kid: unknown, alg: string): Jwk | undefined {
+        const candidates = keys.filter(key =>
+            (key.use === undefined || key.use === "sig") && (key.alg === undefined || key.alg === alg)
+        );
+        return kid === undefined && candidates.length === 1
+            ? candidates[0]
+            : candidates.find(key => key.kid === kid);
+    }
+
+    async function signingKey(kid: unknown, alg: string): Promise<Jwk> {
+        if (Date.now() - loadedAt > JWKS_TTL_MS) {
+            await loadKeys();
+        }
+        let key = findKey(kid, alg);
+        // The identity provider may have rotated its keys since they were loaded
+        if (!key && Date.now() - loadedAt > JWKS_MIN_RELOAD_MS) {
+            await loadKeys();
+            key = findKey(kid, alg);
+        }
+        if (!key) {
+            throw new Error("Invalid token: unknown signing key");
+        }
+        return key;
+    }
+
+    function checkClaims(claims: Record<string, unknown>): void {
+        const now = Date.now() / 1000;
+        if (typeof claims.exp !== "number") {
+            throw new Error("Invalid token: missing exp");
+        }
+        if (now > claims.exp + options.clockTolerance) {
+            throw new Error("Invalid token: expired");
+        }
+        if (typeof claims.nbf === "number" && now < claims.nbf - options.clockTolerance) {
+            throw new Error("Invalid token: not yet valid");
+        }
+        if (options.issuer !== undefined && claims.iss !== options.issuer) {
+            throw new Error("Invalid token: unexpected issuer");
+        }
+        if (options.audience !== undefined) {
+            const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+            if (!audiences.includes(options.audience)) {
+                throw new Error("Invalid token: unexpected audience");
+            }
+        }
+    }
+
+    return {
+        async authenticate(token) {
+            const segments = token.split(".");
+            if (segments.length !== 3) {
+                throw new Error("Invalid token: malformed");
+            }
+
+            let header: Record<string, unknown>;
+            let claims: Record<string, unknown>;
+            try {
+                header = decodeSegment(segments[0]);
+                claims = decodeSegment(segments[1]);
+            } catch {
+                throw new Error("Invalid token: malformed");
+            }
+
+            const algorithm = typeof header.alg === "string" ? ALGORITHMS[header.alg] : undefined;
+            if (!algorithm) {
+                throw new Error(`Invalid token: unsupported algorithm ${String(header.alg)}`);
+            }
+
+            const jwk = await signingKey(header.kid, header.alg as string);
+            let valid: boolean;
+            try {
+                const key = crypto.createPublicKey({ key: jwk, format: "jwk" });
+                valid = crypto.verify(
+                    algorithm.hash,
+                    Buffer.from(`${segments[0]}.${segments[1]}`),
+                    algorithm.type === "EC" ? { key, dsaEncoding: "ieee-p1363" }
+                        : algorithm.type === "PSS" ? { key, padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST }
+                        : key,
+                    Buffer.from(segments[2], "base64url")
+                );
+            } catch {
+                valid = false;
+            }
+            if (!valid) {
+                throw new Error("Invalid token: bad signature");
+            }
+
+            checkClaims(claims);
+
+            const role = roleFromClaim(claimAt(claims, options.roleClaim), options.roleMap);
+            if (!role) {
+                throw new Error("Token grants no role");
+            }
+
+            const scopeClaim = claimAt(claims, options.scopeClaim);
+            const scope = scopeClaim === undefined ? undefined : parsePublisherScope(scopeClaim);
+            if (typeof scope === "string") {
+                throw new Error(`Invalid token: ${options.scopeClaim} claim: ${scope}`);
+            }
+
+            const subject = typeof claims.sub === "string" ? claims.sub : undefined;
+            const name = claimAt(claims, options.nameClaim);
+            return {
+                name: typeof name === "string" && name !== "" ? name.slice(0, 100) : subject || "unknown",
+                role,
+                ...(subject && { subject }),
+                ...(scope && { scope })
+            };
+        }
+    };
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect, jest, beforeAll, beforeEach } from "@jest/globals";
+import os from "os";
+import path from "path";
+import fs from "fs/promises";
+import { mockMemoryFs } from "./memory-fs.test-utils.js";
+
+jest.mock("fs/promises");
+const mockedFs = jest.mocked(fs);
+
+// Short timeout so contention tests fail fast; read when locks.ts is loaded
+process.env.LOCK_TIMEOUT_MS = "300";
+let locks: typeof import("./locks.js");
+
+beforeAll(async () => {
+  locks = await import("./locks.js");
+});
+
+// In-memory file system keyed by absolute path
+let files: Map<string, string>;
+
+beforeEach(() => {
+  ({ files } = mockMemoryFs());
+});
+
+const lockFile = (name: string) => path.join(locks.LOCK_DIR, `${name}.lock`);
+
+// A lock file written by another process
+const foreignLock = (name: string, owner: Partial<import("./locks.js").LockOwner>) => {
+  files.set(lockFile(name), JSON.stringify({
+    token: "0123456789abcdef",
+    pid: 4242,
+    host: "other-host",
+    acquiredAt: new Date().toISOString(),
+    ...owner
+  }));
+};
+
+describe("withFileLock", () => {
+  it("should run operations on the same name one at a time and remove the lock file", async () => {
+    const events: string[] = [];
+    const operation = (label: string) => async () => {
+      events.push(`${label}:start`);
+      expect(JSON.parse(files.get(lockFile("pub1.json"))!)).toMatchObject({ pid: process.pid, host: os.hostname() });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      events.push(`${label}:end`);
+      return label;
+    };
+
+    const results = await Promise.all([
+      locks.withFileLock("pub1.json", operation("a")),
+      locks.withFileLock("pub1.json", operation("b"))
+    ]);
+
+    expect(results).toEqual(["a", "b"]);
+    expect(events).toEqual(["a:start", "a:end", "b:start", "b:end"]);
+    expect(files.has(lockFile("pub1.json"))).toBe(false);
+  });
+
+  it("should fail with a lock timeout while another process holds the lock", async () => {
+    foreignLock("pub1.json", {});
+    const operation = jest.fn(async () => "done");
+
+    await expect(locks.withFileLock("pub1.json", operation)).rejects.toThrow("Lock timeout: pub1.json is held by other-host (pid 4242)");
+    expect(operation).not.toHaveBeenCalled();
+    expect(files.has(lockFile("pub1.json"))).toBe(true);
+  });
+
+  it("should take over a lock whose owner is gone or that is too old", async () => {
+    jest.spyOn(process, "kill").mockImplementation(() => { throw Object.assign(new Error("ESRCH"), { code: "ESRCH" }); });
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    foreignLock("pub1.json", { host: os.hostname() });
+    foreignLock("pub2.json", { acquiredAt: "2020-01-01T00:00:00.000Z" });
+
+    await expect(locks.withFileLock("pub1.json", async () => "first")).resolves.toBe("first");
+    await expect(locks.withFileLock("pub2.json", async () => "second")).resolves.toBe("second");
+
+    jest.restoreAllMocks();
+  });
+
+  it("should report a lock directory that cannot be written", async () => {
+    mockedFs.writeFile.mockRejectedValue(new Error("EACCES: permission denied"));
+
+    await expect(locks.withFileLock("pub1.json", async () => "done")).rejects.toThrow("Lock unavailable: EACCES");
+  });
+});
+
+describe("cleanupStaleLocks", () => {
+  it("should remove only the locks of processes that are gone", async () => {
+    foreignLock("pub1.json", { pid: 4242, host: os.hostname() });
+    foreignLock("pub2.json", { pid: process.pid, host: os.hostname(), token: "fedcba9876543210" });
+    foreignLock("pub3.json", {});
+    const kill = jest.spyOn(process, "kill").mockImplementation(pid => {
+      if (pid !== process.pid) throw Object.assign(new Error("ESRCH"), { code: "ESRCH" });
+      return true;
+    });
+
+    // pub2.json carries our PID but a token this process never held: a previous run left it
+    expect((await locks.cleanupStaleLocks()).sort()).toEqual(["pub1.json", "pub2.json"]);
+    expect([...files.keys()]).toEqual([lockFile("pub3.json")]);
+
+    kill.mockRestore();
+  });
+});
@@ -0,0 +1,242 @@
+import os from "os";
+import path from "path";
+import fs from "fs/promises";
+import crypto from "crypto";
+import { DATA_DIR } from "./paths.js";
+
+// Lock files shared by every server process using the same data directory
+export const LOCK_DIR = path.join(DATA_DIR, ".locks");
+
+// How long a write waits for a lock before failing with "Lock timeout"
+const LOCK_TIMEOUT_MS = Number(process.env.LOCK_TIMEOUT_MS) || 10_000;
+
+// A lock older than this is considered abandoned, whoever owns it
+export const LOCK_STALE_MS = Number(process.env.LOCK_STALE_MS) || 5 * 60 * 1000;
+
+// A lock file that cannot be parsed is being written, unless it is older than this
+const UNREADABLE_LOCK_GRACE_MS = 5_000;
+
+const RETRY_DELAY_MS = 50;
+
+// Content of a lock file
+export interface LockOwner {
+    token: string;
+    pid: number;
+    host: string;
+    acquiredAt: string;
+}
+
+// Locks queued or held in this process, chained per name so waiters run one at a time
+const queues = new Map<string, Promise<void>>();
+
+// Tokens of the lock files held by this process
+const heldTokens = new Set<string>();
+
+function lockPath(name: string): string {
+    return path.join(LOCK_DIR, `${name}.lock`);
+}
+
+function isProcessAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        // EPERM: the process exists but belongs to another user
+        return (error as NodeJS.ErrnoException)?.code === "EPERM";
+    }
+}
+
+// Why a lock file can be taken over, or null while its owner may still hold it
+function staleReason(owner: LockOwner): string | null {
+    const age = Date.now() - Date.parse(owner.acquiredAt);
+    if (!(age < LOCK_STALE_MS)) {
+        return `held for more than ${LOCK_STALE_MS} ms`;
+    }
+    if (owner.host === os.hostname()) {
+        if (!isProcessAlive(owner.pid)) {
+            return `owner process ${owner.pid} is gone`;
+        }
+        // Our own PID but not one of our locks: left by an earlier process with the same PID
+        if (owner.pid === process.pid && !heldTokens.has(owner.token)) {
+            return "left by a previous run of this process";
+        }
+    }
+    return null;
+}
+
+async function readOwner(file: string): Promise<LockOwner | null> {
+    try {
+        const owner = JSON.parse(await fs.readFile(file, "utf-8"));
+        return owner && typeof owner.token === "string" ? owner : null;
+    } catch {
+        return null;
+    }
+}
+
+function isMissing(error: unknown): boolean {
+    return (error instanceof Error ? error.message : "").includes("ENOENT");
+}
+
+// Remove a lock file if it still holds `token`. The re-read narrows the window in
+// which a lock re-created by another process could be removed by mistake.
+async function removeLockFile(file: string, token: string): Promise<boolean> {
+    const current = await readOwner(file);
+    if (!current || current.token !== token) {
+        return false;
+    }
+    try {
+        await fs.unlink(file);
+        return true;
+    } catch (error) {
+        if (isMissing(error)) {
+            return false;
+        }
+        throw error;
+    }
+}
+
+// Remove the lock file of `name` when it is stale. Unreadable lock files are only
+// removed once they are old enough not to be in the middle of being written.
+async function removeIfStale(name: string): Promise<LockOwner | null> {
+    const file = lockPath(name);
+    const owner = await readOwner(file);
+
+    if (!owner) {
+        try {
+            const stats = await fs.stat(file);
+            if (Date.now() - stats.mtime.getTime() > UNREADABLE_LOCK_GRACE_MS) {
+                await fs.unlink(file);
+            }
+        } catch {
+            // Released in the meantime
+        }
+        return null;
+    }
+
+    const reason = staleReason(owner);
+    if (reason && await removeLockFile(file, owner.token)) {
+        console.warn(`Removed stale lock ${name} of ${owner.host} (pid ${owner.pid}): ${reason}`);
+        return null;
+    }
+    return reason ? null : owner;
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function acquireLockFile(name: string, deadline: number): Promise<LockOwner> {
+    const owner: LockOwner = {
+        token: crypto.randomBytes(8).toString("hex"),
+        pid: process.pid,
+        host: os.hostname(),
+        acquiredAt: new Date().toISOString()
+    };
+
+    try {
+        await fs.mkdir(LOCK_DIR, { recursive: true });
+    } catch (error) {
+        throw new Error(`Lock unavailable: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+
+    for (;;) {
+        try {
+            owner.acquiredAt = new Date().toISOString();
+            await fs.writeFile(lockPath(name), JSON.stringify(owner), { encoding: "utf-8", flag: "wx" });
+            heldTokens.add(owner.token);
+            return owner;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : "Unknown error";
+            if (!errorMessage.includes("EEXIST")) {
+                throw new Error(`Lock unavailable: ${errorMessage}`);
+            }
+        }
+
+        const holder = await removeIfStale(name);
+        if (Date.now() >= deadline) {
+            throw new Error(holder
+                ? `Lock timeout: ${name} is held by ${holder.host} (pid ${holder.pid}) since ${holder.acquiredAt}`
+                : `Lock timeout: ${name}`);
+        }
+        await delay(RETRY_DELAY_MS + Math.random() * RETRY_DELAY_MS);
+    }
+}
+
+async function releaseLockFile(name: string, owner: LockOwner): Promise<void> {
+    heldTokens.delete(owner.token);
+    try {
+        await removeLockFile(lockPath(name), owner.token);
+    } catch (error) {
+        // Left for stale lock detection
+        console.error(`Failed to release lock ${name}:`, error);
+    }
+}
+
+// Race condition protection - file locks. Operations on the same name run one at a time,
+// across processes sharing the data directory. Fails with "Lock timeout: …" when the
+// lock cannot be acquired within LOCK_TIMEOUT_MS, and with "Lock unavailable: …" when
+// the lock file cannot be written at all.
+export async function withFileLock<T>(filename: string, operation: () => Promise<T>): Promise<T> {
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    const previous = queues.get(filename) || Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>(resolve => { release = resolve; });
+    const tail = previous.then(() => current);
+    queues.set(filename, tail);
+
+    try {
+        let timer: NodeJS.Timeout | undefined;
+        const timedOut = new Promise<boolean>(resolve => { timer = setTimeout(() => resolve(true), LOCK_TIMEOUT_MS); });
+        const waitTimedOut = await Promise.race([previous.then(() => false), timedOut]);
+        clearTimeout(timer);
+        if (waitTimedOut) {
+            throw new Error(`Lock timeout: ${filename} is busy in this process`);
+        }
+
+        const owner = await acquireLockFile(filename, deadline);
+        try {
+            return await operation();
+        } finally {
+            await releaseLockFile(filename, owner);
+        }
+    } finally {
+        release();
+        if (queues.get(filename) === tail) {
+            queues.delete(filename);
+        }
+    }
+}
+
+// Hold the locks of several names at once. They are taken in sorted order, so two
+// operations locking overlapping sets of names cannot wait for each other forever.
+export async function withFileLocks<T>(filenames: string[], operation: () => Promise<T>): Promise<T> {
+    const names = [...new Set(filenames)].sort();
+    return names.reduceRight<() => Promise<T>>((inner, name) => () => withFileLock(name, inner), operation)();
+}
+
+// Remove lock files abandoned by crashed processes. Returns the names of the removed locks.
+export async function cleanupStaleLocks(): Promise<string[]> {
+    let entries: string[];
+    try {
+        entries = await fs.readdir(LOCK_DIR);
+    } catch (error) {
+        if (isMissing(error)) {
+            return [];
+        }
+        throw error;
+    }
+
+    const removed: string[] = [];
+    for (const entry of entries) {
+        if (!entry.endsWith(".lock")) {
+            continue;
+        }
+        const name = entry.slice(0, -".lock".length);
+        const owner = await readOwner(lockPath(name));
+        if (owner && staleReason(owner) && await removeLockFile(lockPath(name), owner.token)) {
+            removed.push(name);
+        }
+    }
+    return removed;
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect, jest, beforeEach } from "@jest/globals";
+import zlib from "zlib";
+import { appendLogFile, listRotatedFiles, logFileOptionsFromEnv, readLogLines } from "./log-files.js";
+import { mockMemoryFs } from "./memory-fs.test-utils.js";
+
+jest.mock("fs/promises");
+
+// In-memory file system keyed by absolute path
+let files: Map<string, Buffer>;
+
+const LOG = "/var/log/config-tool/audit.log";
+const DAY = 24 * 60 * 60 * 1000;
+
+beforeEach(() => {
+  ({ files } = mockMemoryFs({ binary: true }));
+});
+
+describe("logFileOptionsFromEnv", () => {
+  it("should read the size, retention and compression settings for a prefix", () => {
+    const defaults = { maxSize: 1024, retentionDays: 30, compress: true };
+
+    expect(logFileOptionsFromEnv("AUDIT", defaults, {})).toEqual(defaults);
+    expect(logFileOptionsFromEnv("AUDIT", defaults, { AUDIT_MAX_SIZE_MB: "2", AUDIT_RETENTION_DAYS: "0", AUDIT_COMPRESS: "false" }))
+      .toEqual({ maxSize: 2 * 1024 * 1024, retentionDays: 0, compress: false });
+  });
+});
+
+describe("appendLogFile", () => {
+  it("should rotate a full file, gzip it and keep reading it", async () => {
+    const options = { maxSize: 10, retentionDays: 0, compress: true };
+    await appendLogFile(LOG, "first entry", options);
+    await appendLogFile(LOG, "second entry", options);
+
+    const [rotated] = await listRotatedFiles(LOG);
+    expect(rotated.path).toMatch(/audit\.log\.\d+\.gz$/);
+    expect(zlib.gunzipSync(files.get(rotated.path)!).toString()).toBe("first entry\n");
+    expect(await readLogLines(rotated.path)).toEqual(["first entry"]);
+    expect(await readLogLines(LOG)).toEqual(["second entry"]);
+  });
+
+  it("should delete rotated files older than the retention period", async () => {
+    const expired = `${LOG}.${Date.now() - 40 * DAY}.gz`;
+    const recent = `${LOG}.${Date.now() - 5 * DAY}.gz`;
+    files.set(expired, zlib.gzipSync("old\n"));
+    files.set(recent, zlib.gzipSync("recent\n"));
+    files.set(LOG, Buffer.from("current entry\n"));
+    files.set("/var/log/config-tool/app.log.1", Buffer.from("another log\n"));
+
+    await appendLogFile(LOG, "next entry", { maxSize: 10, retentionDays: 30, compress: false });
+
+    expect(files.has(expired)).toBe(false);
+    expect(files.has(recent)).toBe(true);
+    expect(files.has("/var/log/config-tool/app.log.1")).toBe(true);
+    expect((await listRotatedFiles(LOG)).map(file => file.path)).toEqual([recent, expect.stringMatching(/audit\.log\.\d+$/)]);
+  });
+});
@@ -0,0 +1,113 @@
+import path from "path";
+import zlib from "zlib";
+import fs from "fs/promises";
+import { promisify } from "util";
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+export interface LogFileOptions {
+    // Size after which the file is rotated to "<name>.<timestamp>[.gz]"
+    maxSize: number;
+    // Rotated files older than this are deleted; 0 keeps them forever
+    retentionDays: number;
+    // Gzip rotated files
+    compress: boolean;
+}
+
+// Rotation settings from the environment, e.g. AUDIT_MAX_SIZE_MB, AUDIT_RETENTION_DAYS
+// and AUDIT_COMPRESS for prefix "AUDIT"
+export function logFileOptionsFromEnv(prefix: string, defaults: LogFileOptions, env: NodeJS.ProcessEnv = process.env): LogFileOptions {
+    const maxSizeMb = Number(env[`${prefix}_MAX_SIZE_MB`]);
+    const retentionDays = Number(env[`${prefix}_RETENTION_DAYS`]);
+    const compress = env[`${prefix}_COMPRESS`];
+    return {
+        maxSize: maxSizeMb > 0 ? maxSizeMb * 1024 * 1024 : defaults.maxSize,
+        retentionDays: env[`${prefix}_RETENTION_DAYS`] !== undefined && retentionDays >= 0 ? retentionDays : defaults.retentionDays,
+        compress: compress === undefined ? defaults.compress : compress !== "false" && compress !== "0"
+    };
+}
+
+function isMissing(error: unknown): boolean {
+    return (error instanceof Error ? error.message : "").includes("ENOENT");
+}
+
+// Rotation timestamp of a rotated file of `file`, or null for other files
+function rotatedAt(file: string, name: string): number | null {
+    const match = name.match(/^(.*)\.(\d+)(\.gz)?$/);
+    return match && match[1] === path.basename(file) ? Number(match[2]) : null;
+}
+
+// Rotated files of `file`, oldest first
+export async function listRotatedFiles(file: string): Promise<{ path: string; rotatedAt: number }[]> {
+    let entries: string[];
+    try {
+        entries = await fs.readdir(path.dirname(file));
+    } catch (error) {
+        if (isMissing(error)) {
+            return [];
+        }
+        throw error;
+    }
+    return entries
+        .map(name => ({ path: path.join(path.dirname(file), name), rotatedAt: rotatedAt(file, name) }))
+        .filter((entry): entry is { path: string; rotatedAt: number } => entry.rotatedAt !== null)
+        .sort((a, b) => a.rotatedAt - b.rotatedAt);
+}
+
+async function rotate(file: string, options: LogFileOptions): Promise<void> {
+    const rotatedPath = `${file}.${Date.now()}`;
+    try {
+        await fs.rename(file, rotatedPath);
+    } catch (error) {
+        // Another process rotated it first
+        if (isMissing(error)) {
+            return;
+        }
+        throw error;
+    }
+
+    if (options.compress) {
+        await fs.writeFile(`${rotatedPath}.gz`, await gzip(await fs.readFile(rotatedPath)));
+        await fs.unlink(rotatedPath);
+    }
+
+    if (options.retentionDays > 0) {
+        const cutoff = Date.now() - options.retentionDays * 24 * 60 * 60 * 1000;
+        for (const rotated of await listRotatedFiles(file)) {
+            if (rotated.rotatedAt < cutoff) {
+                await fs.unlink(rotated.path);
+            }
+        }
+    }
+}
+
+// Append a line, rotating the file first when it has grown past options.maxSize
+export async function appendLogFile(file: string, line: string, options: LogFileOptions): Promise<void> {
+    try {
+        const stats = await fs.stat(file);
+        if (stats.size > options.maxSize) {
+            await rotate(file, options);
+        }
+    } catch (error) {
+        if (!isMissing(error)) {
+            throw error;
+        }
+    }
+    await fs.appendFile(file, line.endsWith("\n") ? line : `${line}\n`);
+}
+
+// Lines of a current or rotated (possibly gzipped) log file
+export async function readLogLines(file: string): Promise<string[]> {
+    let content: Buffer;
+    try {
+        content = await fs.readFile(file);
+    } catch (error) {
+        if (isMissing(error)) {
+            return [];
+        }
+        throw error;
+    }
+    const text = file.endsWith(".gz") ? (await gunzip(content)).toString("utf-8") : content.toString("utf-8");
+    return text.split("\n").filter(line => line.trim() !== "");
+}
@@ -0,0 +1,32 @@
+import path from "path";
+import { ROOT_DIR } from "./paths.js";
+import { currentRequestContext } from "./request-context.js";
+import { appendLogFile, logFileOptionsFromEnv } from "./log-files.js";
+
+const LOG_FILE = path.join(ROOT_DIR, "app.log");
+
+// Rotation of app.log (LOG_MAX_SIZE_MB, LOG_RETENTION_DAYS, LOG_COMPRESS)
+const LOG_OPTIONS = logFileOptionsFromEnv("LOG", { maxSize: 10 * 1024 * 1024, retentionDays: 30, compress: true });
+
+// Simple file-based logging with rotation. Entries logged while handling a request
+// carry its ID and who made it. Changes to publishers, vocabularies and keys are
+// also recorded in the audit log (see audit.ts).
+export async function logAction(action: string, details: Record<string, unknown>) {
+    try {
+        const context = currentRequestContext();
+        const principal = context?.principal;
+        const entry = {
+            ...details,
+            ...(context && { requestId: context.requestId }),
+            ...(principal && {
+                actor: principal.name,
+                ...(principal.keyId && { keyId: principal.keyId }),
+                ...(principal.subject && { subject: principal.subject })
+            })
+        };
+        await appendLogFile(LOG_FILE, `${new Date().toISOString()} - ${action}: ${JSON.stringify(entry)}`, LOG_OPTIONS);
+    } catch (error) {
+        // Logging must not fail the request, but should not fail silently either
+        console.error("Failed to write app.log:", error instanceof Error ? error.message : error);
+    }
+}
@@ -0,0 +1,104 @@
+import path from "path";
+import fs, { type FileHandle } from "fs/promises";
+import type { PathLike } from "fs";
+import { jest } from "@jest/globals";
+
+// In-memory file system for tests: replaces the fs/promises functions the data layer uses
+// with ones working on a Map keyed by absolute path.
+
+export interface MemoryFs<T extends string | Buffer> {
+    files: Map<string, T>;
+    // Modification times of files that were not just written (ms since the epoch)
+    mtimes: Map<string, number>;
+}
+
+type WriteOptions = { flag?: string } | BufferEncoding | null;
+
+export function enoent(file: string): NodeJS.ErrnoException {
+    return Object.assign(new Error(`ENOENT: no such file or directory, '${file}'`), { code: "ENOENT" });
+}
+
+// Files are kept as strings, or as Buffers with `binary` (for gzipped files and the like)
+export function mockMemoryFs(): MemoryFs<string>;
+export function mockMemoryFs(options: { binary: true }): MemoryFs<Buffer>;
+export function mockMemoryFs(options: { binary?: boolean } = {}): MemoryFs<string | Buffer> {
+    const files = new Map<string, string | Buffer>();
+    const mtimes = new Map<string, number>();
+    const toContent = (data: string | Uint8Array): string | Buffer => options.binary ? Buffer.from(data) : String(data);
+
+    const existing = (file: PathLike) => {
+        const content = files.get(String(file));
+        if (content === undefined) {
+            throw enoent(String(file));
+        }
+        return content;
+    };
+
+    const readFile = async (file: PathLike, encoding?: BufferEncoding | { encoding?: BufferEncoding | null } | null) => {
+        const content = existing(file);
+        return Buffer.isBuffer(content) && encoding ? content.toString() : content;
+    };
+    const writeFile = async (file: PathLike, data: string | Uint8Array, writeOptions?: WriteOptions) => {
+        if (typeof writeOptions === "object" && writeOptions?.flag === "wx" && files.has(String(file))) {
+            throw Object.assign(new Error(`EEXIST: file already exists, open '${file}'`), { code: "EEXIST" });
+        }
+        files.set(String(file), toContent(data));
+        mtimes.delete(String(file));
+    };
+    const appendFile = async (file: PathLike, data: string | Uint8Array) => {
+        const before = files.get(String(file));
+        files.set(String(file), options.binary
+            ? Buffer.concat([Buffer.from(before ?? ""), Buffer.from(data)])
+            : `${before ?? ""}${data}`);
+    };
+    const rename = async (from: PathLike, to: PathLike) => {
+        files.set(String(to), existing(from));
+        files.delete(String(from));
+    };
+    const link = async (from: PathLike, to: PathLike) => {
+        if (files.has(String(to))) {
+            throw Object.assign(new Error(`EEXIST: file already exists, '${to}'`), { code: "EEXIST" });
+        }
+        files.set(String(to), existing(from));
+    };
+    const unlink = async (file: PathLike) => {
+        existing(file);
+        files.delete(String(file));
+    };
+    const readdir = async (dir: PathLike) =>
+        [...files.keys()].filter(file => path.dirname(file) === String(dir)).map(file => path.basename(file));
+    const stat = async (file: PathLike) => {
+        const mtimeMs = mtimes.get(String(file)) ?? Date.now();
+        return { size: Buffer.byteLength(existing(file)), mtimeMs, mtime: new Date(mtimeMs) };
+    };
+    const access = async (file: PathLike) => {
+        if (![...files.keys()].some(name => name === String(file) || name.startsWith(`${String(file)}${path.sep}`))) {
+            throw enoent(String(file));
+        }
+    };
+    const mkdir = async () => undefined;
+    // Directories exist as long as they hold files
+    const rmdir = async (dir: PathLike) => {
+        if ([...files.keys()].some(file => path.dirname(file) === String(dir))) {
+            throw Object.assign(new Error(`ENOTEMPTY: directory not empty, rmdir '${dir}'`), { code: "ENOTEMPTY" });
+        }
+    };
+    // Only used to fsync directories
+    const open = async (_dir: PathLike): Promise<Pick<FileHandle, "sync" | "close">> => ({ sync: async () => undefined, close: async () => undefined });
+
+    // A function spied on by an earlier test keeps its spy, whose calls are cleared
+    jest.spyOn(fs, "readFile").mockClear().mockImplementation(readFile as typeof fs.readFile);
+    jest.spyOn(fs, "writeFile").mockClear().mockImplementation(writeFile as typeof fs.writeFile);
+    jest.spyOn(fs, "appendFile").mockClear().mockImplementation(appendFile as typeof fs.appendFile);
+    jest.spyOn(fs, "rename").mockClear().mockImplementation(rename);
+    jest.spyOn(fs, "link").mockClear().mockImplementation(link);
+    jest.spyOn(fs, "unlink").mockClear().mockImplementation(unlink);
+    jest.spyOn(fs, "readdir").mockClear().mockImplementation(readdir as typeof fs.readdir);
+    jest.spyOn(fs, "stat").mockClear().mockImplementation(stat as typeof fs.stat);
+    jest.spyOn(fs, "access").mockClear().mockImplementation(access);
+    jest.spyOn(fs, "mkdir").mockClear().mockImplementation(mkdir);
+    jest.spyOn(fs, "rmdir").mockClear().mockImplementation(rmdir);
+    jest.spyOn(fs, "open").mockClear().mockImplementation(open as typeof fs.open);
+
+    return { files, mtimes };
+}
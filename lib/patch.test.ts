@@ -0,0 +1,62 @@
+import { describe, it, expect } from "@jest/globals";
+import { applyJsonPatch, applyMergePatch } from "./patch.js";
+
+describe("applyJsonPatch", () => {
+  const document = { publisherId: "pub-aurora", isActive: true, tags: ["news"], pages: [{ pageType: "video", position: "top" }] };
+
+  it("should apply the operations in order to a copy", () => {
+    const patched = applyJsonPatch(document, [
+      { op: "test", path: "/isActive", value: true },
+      { op: "replace", path: "/isActive", value: false },
+      { op: "add", path: "/tags/-", value: "premium" },
+      { op: "copy", from: "/pages/0", path: "/pages/1" },
+      { op: "replace", path: "/pages/1/pageType", value: "text" },
+      { op: "move", from: "/tags/0", path: "/notes" },
+      { op: "remove", path: "/pages/0" }
+    ]);
+
+    expect(patched).toEqual({
+      publisherId: "pub-aurora",
+      isActive: false,
+      tags: ["premium"],
+      notes: "news",
+      pages: [{ pageType: "text", position: "top" }]
+    });
+    expect(document.isActive).toBe(true);
+  });
+
+  it("should unescape ~0 and ~1 in paths", () => {
+    expect(applyJsonPatch({ "a/b": 1, "m~n": 2 }, [
+      { op: "replace", path: "/a~1b", value: 3 },
+      { op: "remove", path: "/m~0n" }
+    ])).toEqual({ "a/b": 3 });
+  });
+
+  it("should fail as a whole on a failed test or a missing path", () => {
+    expect(() => applyJsonPatch(document, [{ op: "test", path: "/tags", value: ["sports"] }]))
+      .toThrow('Patch test failed: "/tags" does not have the expected value');
+    expect(() => applyJsonPatch(document, [{ op: "replace", path: "/missing", value: 1 }]))
+      .toThrow('Invalid patch: path "/missing" does not exist');
+    expect(() => applyJsonPatch(document, [{ op: "add", path: "/pages/5", value: {} }]))
+      .toThrow('Invalid patch: path "/pages/5" does not exist');
+    expect(() => applyJsonPatch(document, [{ op: "add", path: "/__proto__/polluted", value: true }]))
+      .toThrow("Invalid patch: __proto__ is not allowed");
+    expect(() => applyJsonPatch(document, { op: "remove", path: "/tags" })).toThrow("Invalid patch: a JSON Patch must be an array of operations");
+  });
+});
+
+describe("applyMergePatch", () => {
+  it("should follow the examples of RFC 7386", () => {
+    expect(applyMergePatch({ a: "b" }, { a: "c" })).toEqual({ a: "c" });
+    expect(applyMergePatch({ a: "b" }, { b: "c" })).toEqual({ a: "b", b: "c" });
+    expect(applyMergePatch({ a: "b", b: "c" }, { a: null })).toEqual({ b: "c" });
+    expect(applyMergePatch({ a: [{ b: "c" }] }, { a: [1] })).toEqual({ a: [1] });
+    expect(applyMergePatch({ a: { b: "c" } }, { a: { b: "d", c: null } })).toEqual({ a: { b: "d" } });
+    expect(applyMergePatch(["a", "b"], { a: "b" })).toEqual({ a: "b" });
+    expect(applyMergePatch({ e: null }, { a: 1 })).toEqual({ e: null, a: 1 });
+  });
+
+  it("should refuse __proto__ members", () => {
+    expect(() => applyMergePatch({}, JSON.parse('{"__proto__":{"polluted":true}}'))).toThrow("Invalid patch: __proto__ is not allowed");
+  });
+});
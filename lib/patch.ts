@@ -0,0 +1,215 @@
+// JSON Patch (RFC 6902) and JSON Merge Patch (RFC 7386) for PATCH /api/publisher/:filename.
+// Errors start with "Invalid patch" (malformed patch or a path that does not apply) or
+// "Patch test failed" (a "test" operation did not match).
+
+export type PatchFormat = "json-patch" | "merge-patch";
+
+type JsonObject = Record<string, unknown>;
+
+interface PatchOperation {
+    op: "add" | "remove" | "replace" | "move" | "copy" | "test";
+    path: string;
+    from?: string;
+    value?: unknown;
+}
+
+const OPERATIONS = ["add", "remove", "replace", "move", "copy", "test"];
+
+function isObject(value: unknown): value is JsonObject {
+    return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function clone<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((entry, i) => deepEqual(entry, b[i]));
+    }
+    if (isObject(a) && isObject(b)) {
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length &&
+            keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]));
+    }
+    return a === b;
+}
+
+// Assigning "__proto__" would change the prototype of the patched object
+function checkKey(key: string): void {
+    if (key === "__proto__") {
+        throw new Error("Invalid patch: __proto__ is not allowed");
+    }
+}
+
+// JSON Pointer (RFC 6901) reference tokens; "" is the whole document
+function parsePointer(pointer: string): string[] {
+    if (pointer === "") {
+        return [];
+    }
+    if (!pointer.startsWith("/")) {
+        throw new Error(`Invalid patch: path "${pointer}" must start with /`);
+    }
+    const tokens = pointer.slice(1).split("/").map(token => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+    tokens.forEach(checkKey);
+    return tokens;
+}
+
+function arrayIndex(array: unknown[], token: string, pointer: string, allowEnd: boolean): number {
+    if (allowEnd && token === "-") {
+        return array.length;
+    }
+    const index = /^(0|[1-9]\d*)$/.test(token) ? Number(token) : NaN;
+    if (Number.isNaN(index) || index > array.length || (!allowEnd && index === array.length)) {
+        throw new Error(`Invalid patch: path "${pointer}" does not exist`);
+    }
+    return index;
+}
+
+// The container holding the last token of a pointer
+function parentOf(document: unknown, tokens: string[], pointer: string): unknown {
+    let current = document;
+    for (const token of tokens.slice(0, -1)) {
+        if (Array.isArray(current)) {
+            current = current[arrayIndex(current, token, pointer, false)];
+        } else if (isObject(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+            current = current[token];
+        } else {
+            throw new Error(`Invalid patch: path "${pointer}" does not exist`);
+        }
+    }
+    if (!Array.isArray(current) && !isObject(current)) {
+        throw new Error(`Invalid patch: path "${pointer}" does not exist`);
+    }
+    return current;
+}
+
+function getValue(document: unknown, pointer: string): unknown {
+    const tokens = parsePointer(pointer);
+    if (tokens.length === 0) {
+        return document;
+    }
+    const parent = parentOf(document, tokens, pointer);
+    const last = tokens[tokens.length - 1];
+    if (Array.isArray(parent)) {
+        return parent[arrayIndex(parent, last, pointer, false)];
+    }
+    if (!Object.prototype.hasOwnProperty.call(parent, last)) {
+        throw new Error(`Invalid patch: path "${pointer}" does not exist`);
+    }
+    return (parent as JsonObject)[last];
+}
+
+// Each operation returns the new document, which only differs from the one passed
+// in when the operation targets the root
+function addValue(document: unknown, pointer: string, value: unknown): unknown {
+    const tokens = parsePointer(pointer);
+    if (tokens.length === 0) {
+        return value;
+    }
+    const parent = parentOf(document, tokens, pointer);
+    const last = tokens[tokens.length - 1];
+    if (Array.isArray(parent)) {
+        parent.splice(arrayIndex(parent, last, pointer, true), 0, value);
+    } else {
+        (parent as JsonObject)[last] = value;
+    }
+    return document;
+}
+
+function removeValue(document: unknown, pointer: string): unknown {
+    const tokens = parsePointer(pointer);
+    if (tokens.length === 0) {
+        throw new Error("Invalid patch: the whole document cannot be removed");
+    }
+    const parent = parentOf(document, tokens, pointer);
+    const last = tokens[tokens.length - 1];
+    if (Array.isArray(parent)) {
+        parent.splice(arrayIndex(parent, last, pointer, false), 1);
+    } else if (Object.prototype.hasOwnProperty.call(parent, last)) {
+        delete (parent as JsonObject)[last];
+    } else {
+        throw new Error(`Invalid patch: path "${pointer}" does not exist`);
+    }
+    return document;
+}
+
+function parseOperations(patch: unknown): PatchOperation[] {
+    if (!Array.isArray(patch)) {
+        throw new Error("Invalid patch: a JSON Patch must be an array of operations");
+    }
+    return patch.map((operation, i) => {
+        if (!isObject(operation) || typeof operation.op !== "string" || !OPERATIONS.includes(operation.op)) {
+            throw new Error(`Invalid patch: operation ${i} must have an op of ${OPERATIONS.join(", ")}`);
+        }
+        if (typeof operation.path !== "string") {
+            throw new Error(`Invalid patch: operation ${i} must have a path`);
+        }
+        if ((operation.op === "move" || operation.op === "copy") && typeof operation.from !== "string") {
+            throw new Error(`Invalid patch: operation ${i} (${operation.op}) must have a from path`);
+        }
+        if ((operation.op === "add" || operation.op === "replace" || operation.op === "test") && !("value" in operation)) {
+            throw new Error(`Invalid patch: operation ${i} (${operation.op}) must have a value`);
+        }
+        return operation as unknown as PatchOperation;
+    });
+}
+
+// Apply a JSON Patch to a copy of the document. Operations apply in order and the
+// patch fails as a whole when one of them fails.
+export function applyJsonPatch(document: unknown, patch: unknown): unknown {
+    let result = clone(document);
+
+    for (const operation of parseOperations(patch)) {
+        switch (operation.op) {
+            case "add":
+                result = addValue(result, operation.path, clone(operation.value));
+                break;
+            case "remove":
+                result = removeValue(result, operation.path);
+                break;
+            case "replace":
+                getValue(result, operation.path);
+                result = parsePointer(operation.path).length === 0
+                    ? clone(operation.value)
+                    : addValue(removeValue(result, operation.path), operation.path, clone(operation.value));
+                break;
+            case "move": {
+                if (operation.path.startsWith(`${operation.from}/`)) {
+                    throw new Error(`Invalid patch: cannot move "${operation.from}" into itself`);
+                }
+                const value = getValue(result, operation.from!);
+                result = addValue(removeValue(result, operation.from!), operation.path, value);
+                break;
+            }
+            case "copy":
+                result = addValue(result, operation.path, clone(getValue(result, operation.from!)));
+                break;
+            case "test":
+                if (!deepEqual(getValue(result, operation.path), operation.value)) {
+                    throw new Error(`Patch test failed: "${operation.path}" does not have the expected value`);
+                }
+                break;
+        }
+    }
+
+    return result;
+}
+
+// Apply a JSON Merge Patch: objects are merged recursively, null removes a member and
+// anything else (arrays included) replaces the target value
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+    if (!isObject(patch)) {
+        return clone(patch);
+    }
+    const result: JsonObject = isObject(target) ? clone(target) : {};
+    for (const [key, value] of Object.entries(patch)) {
+        checkKey(key);
+        if (value === null) {
+            delete result[key];
+        } else {
+            result[key] = applyMergePatch(result[key], value);
+        }
+    }
+    return result;
+}
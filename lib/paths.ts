@@ -0,0 +1,40 @@
+import path from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Root of the backend (next to server.ts / dist/server.js)
+export const ROOT_DIR = path.resolve(__dirname, "..");
+
+// Directory holding publishers.json and the per-publisher config files
+export const DATA_DIR = path.join(ROOT_DIR, "data");
+
+// JSON files in data/ that are not publisher configs: the index, vocabularies, API keys,
+// redirects and webhooks. They are never read or written as configs.
+export const RESERVED_DATA_FILES: ReadonlySet<string> = new Set([
+    "publishers.json",
+    "vocabularies.json",
+    "api-keys.json",
+    "redirects.json",
+    "webhooks.json",
+    "webhook-deliveries.json"
+]);
+
+// Path traversal protection - validate filename
+export function validateFilename(filename: string): boolean {
+    // Allow only safe filenames: alphanumeric, hyphens, underscores, and .json extension
+    if (!/^[a-zA-Z0-9_-]+\.json$/.test(filename)) {
+        return false;
+    }
+
+    if (RESERVED_DATA_FILES.has(filename)) {
+        return false;
+    }
+
+    // Check that resolved path is inside data directory
+    const resolvedPath = path.resolve(DATA_DIR, filename);
+    const dataDir = path.resolve(DATA_DIR);
+
+    return resolvedPath.startsWith(dataDir);
+}
@@ -0,0 +1,212 @@
+import type { PublisherConfig, PublisherListItem } from "../types/interfaces.js";
+
+// Searchable summary of a publisher, built from its publishers.json entry and config file
+export interface IndexedPublisher {
+    item: PublisherListItem;
+    isActive: boolean | null;
+    tags: string[];
+    pageTypes: string[];
+    positions: string[];
+    notes: string;
+}
+
+export type PublisherSortField = "alias" | "id" | "file";
+
+export interface PublisherQuery {
+    isActive?: boolean;
+    tags?: string[];
+    pageType?: string;
+    position?: string;
+    q?: string;
+    sort: PublisherSortField;
+    descending: boolean;
+    limit?: number;
+    cursor?: [string, string];
+}
+
+export const MAX_PAGE_SIZE = 200;
+const DEFAULT_PAGE_SIZE = 50;
+
+// In-memory index keyed by filename. Loaded lazily on the first search and kept
+// current by the write handlers afterwards.
+const index = new Map<string, IndexedPublisher>();
+let loading: Promise<void> | null = null;
+let loadedVersion: string | null = null;
+
+export function summarizePublisher(item: PublisherListItem, config: PublisherConfig | null): IndexedPublisher {
+    const pages = Array.isArray(config?.pages) ? config!.pages : [];
+    return {
+        item,
+        isActive: typeof config?.isActive === "boolean" ? config.isActive : null,
+        tags: Array.isArray(config?.tags) ? config!.tags.filter(tag => typeof tag === "string") : [],
+        pageTypes: [...new Set(pages.map(page => page?.pageType).filter((value): value is string => typeof value === "string"))],
+        positions: [...new Set(pages.map(page => page?.position).filter((value): value is string => typeof value === "string"))],
+        notes: typeof config?.notes === "string" ? config.notes : ""
+    };
+}
+
+// `version` is the storage version (see PublisherRepository.version): the index is
+// reloaded when another process has written since it was loaded
+export async function ensureIndexLoaded(load: () => Promise<IndexedPublisher[]>, version: string | null = null): Promise<void> {
+    if (loading && version !== loadedVersion) {
+        loading = null;
+    }
+    if (!loading) {
+        loadedVersion = version;
+        loading = load().then(
+            entries => {
+                index.clear();
+                entries.forEach(entry => index.set(entry.item.file, entry));
+            },
+            error => {
+                loading = null;
+                throw error;
+            }
+        );
+    }
+    await loading;
+}
+
+// Write hooks: no-ops until the index has been loaded, as the load picks up the current state
+export function upsertIndexedPublisher(entry: IndexedPublisher): void {
+    if (loading) {
+        index.set(entry.item.file, entry);
+    }
+}
+
+export function removeIndexedPublisher(file: string): void {
+    if (loading) {
+        index.delete(file);
+    }
+}
+
+// Drop the index so the next search reloads it from disk
+export function resetPublisherIndex(): void {
+    index.clear();
+    loading = null;
+}
+
+function encodeCursor(values: [string, string]): string {
+    return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): [string, string] | null {
+    try {
+        const values = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+        return Array.isArray(values) && values.length === 2 && values.every(value => typeof value === "string")
+            ? [values[0], values[1]]
+            : null;
+    } catch {
+        return null;
+    }
+}
+
+function single(value: unknown): string | undefined {
+    return typeof value === "string" ? value : undefined;
+}
+
+// Parse GET /api/publishers query parameters. Returns an error message for invalid input.
+export function parsePublisherQuery(query: Record<string, unknown>): PublisherQuery | string {
+    const result: PublisherQuery = { sort: "alias", descending: false };
+
+    const isActive = single(query.isActive);
+    if (isActive !== undefined) {
+        if (isActive !== "true" && isActive !== "false") {
+            return "isActive must be true or false";
+        }
+        result.isActive = isActive === "true";
+    }
+
+    const tags = single(query.tags);
+    if (tags !== undefined) {
+        result.tags = tags.split(",").map(tag => tag.trim()).filter(tag => tag !== "");
+    }
+
+    result.pageType = single(query.pageType);
+    result.position = single(query.position);
+
+    const q = single(query.q);
+    if (q !== undefined && q.trim() !== "") {
+        result.q = q.trim().toLowerCase();
+    }
+
+    const sort = single(query.sort);
+    if (sort !== undefined) {
+        const field = sort.replace(/^-/, "");
+        if (field !== "alias" && field !== "id" && field !== "file") {
+            return "sort must be one of alias, id, file (prefix with - for descending order)";
+        }
+        result.sort = field;
+        result.descending = sort.startsWith("-");
+    }
+
+    const limit = single(query.limit);
+    const cursor = single(query.cursor);
+    if (limit !== undefined || cursor !== undefined) {
+        const pageSize = limit === undefined ? DEFAULT_PAGE_SIZE : Number(limit);
+        if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+            return `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`;
+        }
+        result.limit = pageSize;
+    }
+
+    if (cursor !== undefined) {
+        const decoded = decodeCursor(cursor);
+        if (!decoded) {
+            return "Invalid cursor";
+        }
+        result.cursor = decoded;
+    }
+
+    return result;
+}
+
+function matches(entry: IndexedPublisher, query: PublisherQuery): boolean {
+    if (query.isActive !== undefined && entry.isActive !== query.isActive) {
+        return false;
+    }
+    if (query.tags && !query.tags.every(tag => entry.tags.includes(tag))) {
+        return false;
+    }
+    if (query.pageType !== undefined && !entry.pageTypes.includes(query.pageType)) {
+        return false;
+    }
+    if (query.position !== undefined && !entry.positions.includes(query.position)) {
+        return false;
+    }
+    if (query.q !== undefined) {
+        const haystack = [entry.item.alias, entry.item.id, entry.notes].join("\n").toLowerCase();
+        if (!haystack.includes(query.q)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+// Filter, sort and paginate the index. Pages are keyed on (sort value, file) so a
+// cursor stays valid while publishers are added or removed. Entries failing `visible`
+// (publishers outside the caller's scope) are left out, totals included.
+export function queryPublisherIndex(
+    query: PublisherQuery,
+    visible: (entry: IndexedPublisher) => boolean = () => true
+): { items: IndexedPublisher[]; total: number; nextCursor: string | null } {
+    const direction = query.descending ? -1 : 1;
+    const key = (entry: IndexedPublisher): [string, string] => [String(entry.item[query.sort] ?? ""), entry.item.file];
+    const compare = (a: [string, string], b: [string, string]) =>
+        direction * (a[0].localeCompare(b[0]) || a[1].localeCompare(b[1]));
+
+    const filtered = [...index.values()]
+        .filter(entry => visible(entry) && matches(entry, query))
+        .sort((a, b) => compare(key(a), key(b)));
+
+    const afterCursor = query.cursor
+        ? filtered.filter(entry => compare(key(entry), query.cursor!) > 0)
+        : filtered;
+
+    if (query.limit === undefined || afterCursor.length <= query.limit) {
+        return { items: afterCursor, total: filtered.length, nextCursor: null };
+    }
+
+    const items = afterCursor.slice(0, query.limit);
+    return { items, total: filtered.length, nextCursor: encodeCursor(key(items[items.length - 1])) };
+}
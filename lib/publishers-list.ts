@@ -0,0 +1,82 @@
+import path from "path";
+import fs from "fs/promises";
+import { DATA_DIR } from "./paths.js";
+import { logAction } from "./logger.js";
+import { withFileLock } from "./locks.js";
+import { commitChanges, writeFileAtomic, type FileChange } from "./storage.js";
+import type { PublisherConfig, PublisherListItem } from "../types/interfaces.js";
+
+export const PUBLISHERS_FILE = "publishers.json";
+
+export interface PublishersList {
+    publishers: PublisherListItem[];
+}
+
+// Helper function to safely read and parse publishers.json
+export async function readPublishersList(): Promise<PublishersList> {
+    const publishersListPath = path.join(DATA_DIR, PUBLISHERS_FILE);
+    const publishersListData = await fs.readFile(publishersListPath, "utf-8");
+
+    let publishersList;
+    try {
+        publishersList = JSON.parse(publishersListData);
+    } catch (parseError) {
+        console.error("Failed to parse publishers.json:", parseError);
+        await logAction("ERROR", {
+            action: "PARSE_PUBLISHERS_JSON",
+            error: parseError instanceof Error ? parseError.message : "Unknown parse error"
+        });
+        throw new Error("Failed to read publishers list - file may be corrupted");
+    }
+
+    // Validate structure
+    if (!publishersList || !Array.isArray(publishersList.publishers)) {
+        console.error("Invalid publishers.json structure");
+        await logAction("ERROR", { action: "INVALID_PUBLISHERS_STRUCTURE" });
+        throw new Error("Invalid publishers.json structure");
+    }
+
+    return publishersList;
+}
+
+export function sortPublishers(publishers: PublisherListItem[]): PublisherListItem[] {
+    return publishers.sort((a: PublisherListItem, b: PublisherListItem) => a.alias.localeCompare(b.alias));
+}
+
+// Must be called under the publishers.json lock (see updatePublishersList)
+export async function writePublishersList(publishersList: PublishersList): Promise<void> {
+    await writeFileAtomic(path.join(DATA_DIR, PUBLISHERS_FILE), JSON.stringify(publishersList, null, 2));
+}
+
+// Read-modify-write publishers.json under its own lock, so saves of different
+// publishers do not overwrite each other's index changes. The list is kept sorted by alias.
+// `changes` (config files, under their own locks) are committed in the same transaction
+// as the index, so neither is written if the mutator throws or the commit fails.
+export async function updatePublishersList<T>(
+    mutate: (publishersList: PublishersList) => T | Promise<T>,
+    changes: FileChange[] = []
+): Promise<T> {
+    return withFileLock(PUBLISHERS_FILE, async () => {
+        const publishersList = await readPublishersList();
+        const result = await mutate(publishersList);
+        sortPublishers(publishersList.publishers);
+        await commitChanges([
+            ...changes,
+            { path: path.join(DATA_DIR, PUBLISHERS_FILE), content: JSON.stringify(publishersList, null, 2) }
+        ]);
+        return result;
+    });
+}
+
+// publishers.json entry of a config, with the summary fields shown in the list view
+export function toListItem(file: string, config: PublisherConfig, updatedAt: string = new Date().toISOString()): PublisherListItem {
+    return {
+        id: config.publisherId,
+        alias: config.aliasName,
+        file,
+        isActive: config.isActive,
+        tags: Array.isArray(config.tags) ? config.tags : [],
+        pageCount: Array.isArray(config.pages) ? config.pages.length : 0,
+        updatedAt
+    };
+}
@@ -0,0 +1,110 @@
+import path from "path";
+import fs from "fs/promises";
+import { DATA_DIR, validateFilename } from "./paths.js";
+import { withFileLock } from "./locks.js";
+import {
+    PUBLISHERS_FILE,
+    readPublishersList,
+    sortPublishers,
+    toListItem,
+    writePublishersList
+} from "./publishers-list.js";
+import type { PublisherConfig, PublisherListItem } from "../types/interfaces.js";
+
+export interface ReconcileReport {
+    dryRun: boolean;
+    added: string[];
+    removed: string[];
+    updated: string[];
+    skipped: { file: string; reason: string }[];
+    duplicateIds: { id: string; files: string[] }[];
+    publishers: PublisherListItem[];
+}
+
+// Candidate config files in data/ (reserved files excluded by validateFilename)
+export async function listConfigFiles(): Promise<string[]> {
+    const entries = await fs.readdir(DATA_DIR);
+    return entries
+        .filter(validateFilename)
+        .sort();
+}
+
+// Minimal shape needed to index a config (full validation is left to the schema)
+export function isPublisherConfig(data: unknown): data is PublisherConfig {
+    const config = data as PublisherConfig;
+    return !!config && typeof config === "object" && !Array.isArray(config)
+        && typeof config.publisherId === "string" && config.publisherId.trim() !== ""
+        && typeof config.aliasName === "string";
+}
+
+function sameSummary(a: PublisherListItem, b: PublisherListItem): boolean {
+    const { updatedAt: _a, ...restA } = a;
+    const { updatedAt: _b, ...restB } = b;
+    return JSON.stringify(restA) === JSON.stringify(restB);
+}
+
+// Rebuild publishers.json from the config files in data/. Entries of missing files are
+// dropped, unindexed files are added and summary fields are refreshed. Works even when
+// publishers.json itself is missing or corrupted.
+export async function reconcilePublishersList(options: { dryRun?: boolean } = {}): Promise<ReconcileReport> {
+    const dryRun = options.dryRun === true;
+
+    return withFileLock(PUBLISHERS_FILE, async () => {
+        let current: PublisherListItem[] = [];
+        try {
+            current = (await readPublishersList()).publishers;
+        } catch {
+            // Rebuilt from scratch below
+        }
+        const currentByFile = new Map(current.map(item => [item.file, item]));
+
+        const report: ReconcileReport = { dryRun, added: [], removed: [], updated: [], skipped: [], duplicateIds: [], publishers: [] };
+
+        for (const file of await listConfigFiles()) {
+            const filePath = path.join(DATA_DIR, file);
+            let config: unknown;
+            try {
+                config = JSON.parse(await fs.readFile(filePath, "utf-8"));
+            } catch (error) {
+                report.skipped.push({ file, reason: error instanceof Error ? error.message : "Unreadable file" });
+                continue;
+            }
+            if (!isPublisherConfig(config)) {
+                report.skipped.push({ file, reason: "Not a publisher config (publisherId or aliasName missing)" });
+                continue;
+            }
+
+            const stats = await fs.stat(filePath);
+            const item = toListItem(file, config, stats.mtime.toISOString());
+            const existing = currentByFile.get(file);
+
+            if (!existing) {
+                report.added.push(file);
+                report.publishers.push(item);
+            } else if (!sameSummary(existing, item)) {
+                report.updated.push(file);
+                report.publishers.push(item);
+            } else {
+                report.publishers.push({ ...item, updatedAt: existing.updatedAt || item.updatedAt });
+            }
+            currentByFile.delete(file);
+        }
+
+        report.removed = [...currentByFile.keys()];
+
+        const filesById = new Map<string, string[]>();
+        for (const item of report.publishers) {
+            filesById.set(item.id, [...(filesById.get(item.id) || []), item.file]);
+        }
+        report.duplicateIds = [...filesById.entries()]
+            .filter(([, files]) => files.length > 1)
+            .map(([id, files]) => ({ id, files }));
+
+        sortPublishers(report.publishers);
+        if (!dryRun) {
+            await writePublishersList({ publishers: report.publishers });
+        }
+
+        return report;
+    });
+}
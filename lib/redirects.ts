@@ -0,0 +1,76 @@
+import path from "path";
+import fs from "fs/promises";
+import { DATA_DIR } from "./paths.js";
+import { withFileLock } from "./locks.js";
+import { writeFileAtomic } from "./storage.js";
+
+// Old filenames of renamed configs (data/redirects.json), shared by both storage backends
+export const REDIRECTS_FILE = "redirects.json";
+
+// How long an old filename keeps resolving to the new one (REDIRECT_GRACE_DAYS)
+const REDIRECT_GRACE_MS = (Number(process.env.REDIRECT_GRACE_DAYS) || 30) * 24 * 60 * 60 * 1000;
+
+export interface Redirect {
+    from: string;
+    to: string;
+    createdAt: string;
+    expiresAt: string;
+}
+
+function isLive(redirect: Redirect, now: number): boolean {
+    return Date.parse(redirect.expiresAt) > now;
+}
+
+// Read the redirects, expired ones included. An absent file has none.
+export async function readRedirects(): Promise<Redirect[]> {
+    let data: string;
+    try {
+        data = await fs.readFile(path.join(DATA_DIR, REDIRECTS_FILE), "utf-8");
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (errorMessage.includes("ENOENT")) {
+            return [];
+        }
+        throw error;
+    }
+
+    let store;
+    try {
+        store = JSON.parse(data);
+    } catch {
+        throw new Error("Failed to read redirects - file may be corrupted");
+    }
+    if (!store || !Array.isArray(store.redirects)) {
+        throw new Error(`Invalid ${REDIRECTS_FILE} structure`);
+    }
+    return store.redirects;
+}
+
+// The live redirect of an old filename, or null
+export async function findRedirect(filename: string): Promise<Redirect | null> {
+    const now = Date.now();
+    return (await readRedirects()).find(redirect => redirect.from === filename && isLive(redirect, now)) || null;
+}
+
+// Let `from` resolve to `to` for the grace period. Redirects to `from` are moved to `to`,
+// so chains of renames resolve in one step, and expired redirects are dropped.
+export async function addRedirect(from: string, to: string): Promise<Redirect> {
+    return withFileLock(REDIRECTS_FILE, async () => {
+        const now = Date.now();
+        const redirect: Redirect = {
+            from,
+            to,
+            createdAt: new Date(now).toISOString(),
+            expiresAt: new Date(now + REDIRECT_GRACE_MS).toISOString()
+        };
+
+        const redirects = (await readRedirects())
+            // `to` is a real config again, and `from` gets the new redirect
+            .filter(existing => isLive(existing, now) && existing.from !== to && existing.from !== from)
+            .map(existing => existing.to === from ? { ...existing, to } : existing);
+        redirects.push(redirect);
+
+        await writeFileAtomic(path.join(DATA_DIR, REDIRECTS_FILE), JSON.stringify({ redirects }, null, 2));
+        return redirect;
+    });
+}
@@ -0,0 +1,11 @@
+import { createJsonRepository } from "./json-repository.js";
+import { createSqliteRepository } from "./sqlite-repository.js";
+import { DEFAULT_SQLITE_PATH, parseStorageBackend, type PublisherRepository } from "./repository.js";
+
+// Backend selected by STORAGE_BACKEND (json by default). SQLITE_PATH overrides the
+// location of the database file.
+export function createPublisherRepository(env: NodeJS.ProcessEnv = process.env): PublisherRepository {
+    return parseStorageBackend(env.STORAGE_BACKEND) === "sqlite"
+        ? createSqliteRepository(env.SQLITE_PATH || DEFAULT_SQLITE_PATH)
+        : createJsonRepository();
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from "@jest/globals";
+import path from "path";
+import { DATA_DIR } from "./paths.js";
+import { createJsonRepository } from "./json-repository.js";
+import { createSqliteRepository } from "./sqlite-repository.js";
+import { mockMemoryFs } from "./memory-fs.test-utils.js";
+import type { PublisherRepository } from "./repository.js";
+import type { PublisherConfig } from "../types/interfaces.js";
+
+jest.mock("fs/promises");
+
+const config = (publisherId: string, aliasName: string): PublisherConfig => ({
+  publisherId,
+  aliasName,
+  isActive: true,
+  pages: [{ pageType: "text", selector: "main", position: "top" }],
+  publisherDashboard: "https://mixpanel.com/project/101/dashboards/5001",
+  monitorDashboard: "https://grafana.example.com/d/aur0ra01",
+  qaStatusDashboard: "https://internal.example.com/qa/aurora/status"
+});
+
+// Behavior both backends must share. The JSON backend works on an in-memory file system.
+const backends: [string, () => { repository: PublisherRepository; close: () => void }][] = [
+  ["JSON", () => {
+    const { files } = mockMemoryFs();
+    files.set(path.join(DATA_DIR, "publishers.json"), JSON.stringify({ publishers: [] }));
+    return { repository: createJsonRepository(), close: () => undefined };
+  }],
+  ["SQLite", () => {
+    const repository = createSqliteRepository(":memory:");
+    return { repository, close: () => repository.close() };
+  }]
+];
+
+describe.each(backends)("%s publisher repository", (_backend, open) => {
+  let repository: PublisherRepository;
+  let close: () => void;
+
+  beforeEach(() => {
+    ({ repository, close } = open());
+  });
+
+  afterEach(() => {
+    close();
+    jest.restoreAllMocks();
+  });
+
+  it("should move the history of a renamed publisher to its new filename", async () => {
+    await repository.create("a.json", config("pub-a", "Aurora"), { actor: "alice" });
+    await repository.update("a.json", config("pub-a", "Aurora Media"), { actor: "bob" });
+
+    await repository.rename("a.json", { filename: "aurora.json", publisherId: "pub-aurora" }, { actor: "carol" });
+
+    expect((await repository.listRevisions("aurora.json")).map(revision => [revision.revision, revision.action, revision.filename]))
+      .toEqual([[3, "rename", "aurora.json"], [2, "update", "aurora.json"], [1, "create", "aurora.json"]]);
+    expect(await repository.listRevisions("a.json")).toEqual([]);
+
+    const restored = await repository.restore("aurora.json", 1, { actor: "dave" });
+    expect(restored.item).toMatchObject({ file: "aurora.json", id: "pub-a", alias: "Aurora" });
+    expect(await repository.getRevision("a.json", 1)).toBeNull();
+  });
+});
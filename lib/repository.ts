@@ -0,0 +1,133 @@
+import path from "path";
+import { DATA_DIR } from "./paths.js";
+import { computeEtag, ifMatchSatisfied } from "./etag.js";
+import type { FileChange } from "./storage.js";
+import type {
+    PublisherConfig,
+    PublisherListItem,
+    PublisherRevision,
+    PublisherRevisionSummary
+} from "../types/interfaces.js";
+
+export type StorageBackend = "json" | "sqlite";
+
+// A stored config with its serialized content, which the ETag is computed from
+export interface StoredPublisher {
+    config: PublisherConfig;
+    content: string;
+}
+
+export interface WriteOptions {
+    actor: string;
+    // If-Match header of the request; the write fails with "Precondition failed" when stale
+    ifMatch?: string;
+}
+
+export interface SaveResult {
+    item: PublisherListItem;
+    content: string;
+    // Content replaced by the save, null when the config did not exist
+    previousContent: string | null;
+    revision: PublisherRevisionSummary;
+}
+
+// One config of a multi-publisher update
+export interface BatchUpdate {
+    filename: string;
+    config: PublisherConfig;
+    // ETag the stored config must still have
+    ifMatch?: string;
+}
+
+// New filename and publisherId of a renamed config (either may be unchanged)
+export interface RenameTarget {
+    filename: string;
+    publisherId: string;
+}
+
+export interface DeleteResult {
+    // Content of the deleted config
+    content: string;
+    revision: PublisherRevisionSummary;
+}
+
+// Persistence of publisher configs, their list entries and revision history.
+// Writes are atomic per call and serialized per publisher by the backend.
+// Errors use the messages the route handlers map to status codes:
+// "Publisher config already exists", "Publisher config not found", "Revision not found",
+// "Precondition failed" and `Publisher with ID "…" already exists in file "…"`.
+export interface PublisherRepository {
+    readonly backend: StorageBackend;
+
+    // Prepare the storage before serving requests (crash recovery, schema)
+    init(): Promise<void>;
+    isAvailable(): Promise<boolean>;
+    // Changes at least whenever another process writes, null when the backend cannot tell
+    version(): Promise<string | null>;
+
+    list(): Promise<PublisherListItem[]>;
+    get(filename: string): Promise<StoredPublisher | null>;
+    exists(filename: string): Promise<boolean>;
+
+    create(filename: string, config: PublisherConfig, options: WriteOptions): Promise<SaveResult>;
+    // Creates the config when it does not exist. An existing list entry keeps its ID,
+    // unless the save changes the publisherId (which must not be used by another file).
+    update(filename: string, config: PublisherConfig, options: WriteOptions): Promise<SaveResult>;
+    delete(filename: string, options: WriteOptions): Promise<DeleteResult>;
+    // Update several configs in one transaction: either all of them are saved, or none
+    // is (e.g. "Precondition failed" when one of them has changed). `files` are other data
+    // files changed along with the configs, under locks the caller holds: the JSON backend
+    // journals them with the configs, SQLite writes them once its transaction has committed.
+    updateMany(updates: BatchUpdate[], options: Pick<WriteOptions, "actor"> & { files?: FileChange[] }): Promise<SaveResult[]>;
+
+    // Move a config to another filename and/or publisherId, together with its list entry
+    // and revision history. "Publisher config already exists" when the target filename
+    // is taken by a config or by the history of a deleted one.
+    rename(filename: string, target: RenameTarget, options: WriteOptions): Promise<SaveResult>;
+
+    listRevisions(filename: string): Promise<PublisherRevisionSummary[]>;
+    getRevision(filename: string, revision: number): Promise<PublisherRevision | null>;
+    restore(filename: string, revision: number, options: WriteOptions): Promise<SaveResult>;
+}
+
+// Default location of the SQLite database (STORAGE_BACKEND=sqlite)
+export const DEFAULT_SQLITE_PATH = path.join(DATA_DIR, "publishers.db");
+
+export function serializeConfig(config: PublisherConfig): string {
+    return JSON.stringify(config, null, 2);
+}
+
+export function checkPrecondition(ifMatch: string | undefined, currentContent: string | null): void {
+    if (ifMatch !== undefined && !ifMatchSatisfied(ifMatch, currentContent === null ? null : computeEtag(currentContent))) {
+        throw new Error("Precondition failed");
+    }
+}
+
+// Whether a save replacing `previousContent` changes the publisherId of the config.
+// Unparsable content counts as unchanged, so it can still be overwritten.
+export function changesPublisherId(previousContent: string | null, config: PublisherConfig): boolean {
+    if (previousContent === null) {
+        return false;
+    }
+    try {
+        return JSON.parse(previousContent).publisherId !== config.publisherId;
+    } catch {
+        return false;
+    }
+}
+
+// A publisherId must belong to a single file
+export function assertPublisherIdAvailable(publishers: PublisherListItem[], publisherId: string, filename: string): void {
+    const conflicting = publishers.find(p => p.id === publisherId && p.file !== filename);
+    if (conflicting) {
+        throw new Error(`Publisher with ID "${publisherId}" already exists in file "${conflicting.file}"`);
+    }
+}
+
+export function parseStorageBackend(value: string | undefined): StorageBackend {
+    const backend = value || "json";
+    if (backend !== "json" && backend !== "sqlite") {
+        throw new Error(`Unknown STORAGE_BACKEND "${backend}", expected json or sqlite`);
+    }
+    return backend;
+}
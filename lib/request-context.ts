@@ -0,0 +1,28 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { Principal } from "./auth.js";
+
+// What is known about the request being handled, available anywhere below its middleware
+export interface RequestContext {
+    // X-Request-Id of the request, echoed in the response and recorded in logs
+    requestId: string;
+    // Set once the request is authenticated
+    principal?: Principal;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function runWithRequestContext<T>(context: RequestContext, callback: () => T): T {
+    return storage.run(context, callback);
+}
+
+export function currentRequestContext(): RequestContext | undefined {
+    return storage.getStore();
+}
+
+// Attach the authenticated caller to the current request
+export function setRequestPrincipal(principal: Principal): void {
+    const context = storage.getStore();
+    if (context) {
+        context.principal = principal;
+    }
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import zlib from "zlib";
+import { buildRuntimeBundle, createRuntimeCache, negotiateEncoding, notModified, toRuntimeConfig } from "./runtime.js";
+import type { PublisherConfig } from "../types/interfaces.js";
+
+const config = {
+  publisherId: "pub-aurora",
+  aliasName: "Aurora",
+  isActive: true,
+  pages: [{ pageType: "video", selector: "#player", position: "top" }],
+  customCss: ".widget { color: red; }",
+  notes: "internal",
+  publisherDashboard: "https://mixpanel.com/project/101/dashboards/5001"
+} as PublisherConfig;
+
+describe("toRuntimeConfig", () => {
+  it("should keep only the fields the widget acts on", () => {
+    expect(toRuntimeConfig(config)).toEqual({
+      isActive: true,
+      pages: [{ pageType: "video", selector: "#player", position: "top" }],
+      customCss: ".widget { color: red; }"
+    });
+  });
+});
+
+describe("runtime bundles", () => {
+  it("should compress the same body and tag each encoding", () => {
+    const bundle = buildRuntimeBundle(config);
+
+    expect(zlib.gunzipSync(bundle.bodies.gzip)).toEqual(bundle.bodies.identity);
+    expect(zlib.brotliDecompressSync(bundle.bodies.br)).toEqual(bundle.bodies.identity);
+    expect(new Set(Object.values(bundle.etags)).size).toBe(3);
+    expect(notModified(`W/${bundle.etags.gzip}`, bundle)).toBe(true);
+    expect(notModified("\"other\"", bundle)).toBe(false);
+  });
+
+  it("should prefer brotli, then gzip", () => {
+    expect(negotiateEncoding("gzip, deflate, br")).toBe("br");
+    expect(negotiateEncoding("gzip, br;q=0")).toBe("gzip");
+    expect(negotiateEncoding(undefined)).toBe("identity");
+    expect(negotiateEncoding("*")).toBe("br");
+  });
+});
+
+describe("createRuntimeCache", () => {
+  it("should build once and rebuild after an invalidation", async () => {
+    const load = jest.fn(async () => [{ publisherId: "pub-aurora", config }]);
+    const cache = createRuntimeCache({ load, version: async () => null, ttlMs: 60_000 });
+
+    expect(await cache.get("pub-aurora")).not.toBeNull();
+    expect(await cache.get("pub-unknown")).toBeNull();
+    expect(load).toHaveBeenCalledTimes(1);
+
+    cache.invalidate();
+    await cache.get("pub-aurora");
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it("should rebuild when the storage version changes", async () => {
+    let version = "1";
+    const load = jest.fn(async () => [{ publisherId: "pub-aurora", config }]);
+    const cache = createRuntimeCache({ load, version: async () => version, ttlMs: 60_000 });
+
+    await cache.get("pub-aurora");
+    await cache.get("pub-aurora");
+    version = "2";
+    await cache.get("pub-aurora");
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,130 @@
+import zlib from "zlib";
+import { computeEtag } from "./etag.js";
+import type { Page, PublisherConfig } from "../types/interfaces.js";
+
+// What the on-site widget gets of a config (GET /runtime/:publisherId): the fields it acts
+// on, without notes, dashboards or anything else internal
+export interface RuntimeConfig {
+    isActive: boolean;
+    pages: Page[];
+    customCss?: string;
+}
+
+export type RuntimeEncoding = "br" | "gzip" | "identity";
+
+// A runtime config serialized and compressed once, served as is until invalidated
+export interface RuntimeBundle {
+    bodies: Record<RuntimeEncoding, Buffer>;
+    // Strong ETags differ per encoding, as the bytes do
+    etags: Record<RuntimeEncoding, string>;
+}
+
+export interface RuntimeCache {
+    // The bundle of a publisherId, null for an unknown one
+    get(publisherId: string): Promise<RuntimeBundle | null>;
+    // Drop every bundle; the next request rebuilds them from the storage
+    invalidate(): void;
+}
+
+export interface RuntimeCacheOptions {
+    // Every config with its publisherId
+    load: () => Promise<{ publisherId: string; config: PublisherConfig }[]>;
+    // Storage version (see PublisherRepository.version): bundles are rebuilt when another process has written
+    version: () => Promise<string | null>;
+    // Writes of other processes are not seen before this, when the storage has no version
+    ttlMs: number;
+}
+
+export function toRuntimeConfig(config: PublisherConfig): RuntimeConfig {
+    const pages = Array.isArray(config.pages) ? config.pages : [];
+    return {
+        isActive: config.isActive === true,
+        pages: pages.map(page => ({ pageType: page.pageType, selector: page.selector, position: page.position })),
+        ...(typeof config.customCss === "string" && config.customCss !== "" && { customCss: config.customCss })
+    };
+}
+
+export function buildRuntimeBundle(config: PublisherConfig): RuntimeBundle {
+    const identity = Buffer.from(JSON.stringify(toRuntimeConfig(config)));
+    const bodies: Record<RuntimeEncoding, Buffer> = {
+        identity,
+        gzip: zlib.gzipSync(identity, { level: 9 }),
+        br: zlib.brotliCompressSync(identity, {
+            params: {
+                [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
+                [zlib.constants.BROTLI_PARAM_SIZE_HINT]: identity.length
+            }
+        })
+    };
+    const hash = computeEtag(identity).slice(1, -1);
+    return {
+        bodies,
+        etags: { identity: `"${hash}"`, gzip: `"${hash}-gzip"`, br: `"${hash}-br"` }
+    };
+}
+
+// Best encoding a client accepts (Accept-Encoding), preferring brotli
+export function negotiateEncoding(acceptEncoding: string | undefined): RuntimeEncoding {
+    const accepted = new Map<string, number>();
+    for (const part of (acceptEncoding || "").split(",")) {
+        const [name, ...params] = part.trim().toLowerCase().split(";");
+        const q = params.map(param => /^\s*q=([\d.]+)\s*$/.exec(param)).find(Boolean);
+        accepted.set(name, q ? Number(q[1]) : 1);
+    }
+    const weight = (encoding: string) => accepted.get(encoding) ?? accepted.get("*") ?? 0;
+    if (weight("br") > 0) {
+        return "br";
+    }
+    return weight("gzip") > 0 ? "gzip" : "identity";
+}
+
+// Whether an If-None-Match header matches any representation of a bundle (weak comparison)
+export function notModified(ifNoneMatch: string | undefined, bundle: RuntimeBundle): boolean {
+    if (!ifNoneMatch) {
+        return false;
+    }
+    if (ifNoneMatch.trim() === "*") {
+        return true;
+    }
+    const etags = Object.values(bundle.etags);
+    return ifNoneMatch.split(",").map(tag => tag.trim().replace(/^W\//, "")).some(tag => etags.includes(tag));
+}
+
+// Bundles of every publisher, built together on the first request after an invalidation
+export function createRuntimeCache(options: RuntimeCacheOptions): RuntimeCache {
+    let bundles: Promise<Map<string, RuntimeBundle>> | null = null;
+    let builtAt = 0;
+    let builtVersion: string | null = null;
+
+    async function build(): Promise<Map<string, RuntimeBundle>> {
+        const map = new Map<string, RuntimeBundle>();
+        for (const { publisherId, config } of await options.load()) {
+            map.set(publisherId, buildRuntimeBundle(config));
+        }
+        return map;
+    }
+
+    return {
+        async get(publisherId) {
+            const version = await options.version();
+            const expired = version === null ? Date.now() - builtAt > options.ttlMs : version !== builtVersion;
+            if (!bundles || expired) {
+                builtAt = Date.now();
+                builtVersion = version;
+                const building = build();
+                bundles = building;
+                // A failed build is not kept, the next request tries again
+                building.catch(() => {
+                    if (bundles === building) {
+                        bundles = null;
+                    }
+                });
+            }
+            return (await bundles).get(publisherId) ?? null;
+        },
+
+        invalidate() {
+            bundles = null;
+        }
+    };
+}
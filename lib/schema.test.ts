@@ -0,0 +1,52 @@
+import { describe, it, expect } from "@jest/globals";
+import { validateSchema, publisherConfigSchema } from "./schema.js";
+
+const validConfig = {
+  publisherId: "pub-test",
+  aliasName: "Test Publisher",
+  isActive: false,
+  pages: [{ pageType: "text", selector: "main", position: "top" }],
+  publisherDashboard: "https://mixpanel.com/project/101/dashboards/5001",
+  monitorDashboard: "https://grafana.example.com/d/aur0ra01/publisher-aurora-overview",
+  qaStatusDashboard: "https://internal.example.com/qa/aurora/status",
+  customCss: "",
+  tags: ["f", "g"],
+  notes: "qwerty"
+};
+
+describe("validateSchema(publisherConfigSchema)", () => {
+  it("should accept a valid config", () => {
+    expect(validateSchema(validConfig, publisherConfigSchema)).toEqual([]);
+  });
+
+  it("should accept unknown keys holding a ConfigValue", () => {
+    const config = { ...validConfig, "123": 456, legacy: null, widgets: ["a", { pageType: "text", selector: "main", position: "top" }] };
+    expect(validateSchema(config, publisherConfigSchema)).toEqual([]);
+  });
+
+  it("should reject whitespace-only and too long identifiers", () => {
+    const errors = validateSchema({ ...validConfig, publisherId: "   ", aliasName: "a".repeat(201) }, publisherConfigSchema);
+    expect(errors).toEqual([
+      { path: "$.publisherId", message: "publisherId has an invalid format" },
+      { path: "$.aliasName", message: "aliasName must be 200 characters or less" }
+    ]);
+  });
+
+  it("should reject non-http dashboard URLs", () => {
+    const errors = validateSchema({ ...validConfig, monitorDashboard: "javascript:alert(1)" }, publisherConfigSchema);
+    expect(errors).toEqual([{ path: "$.monitorDashboard", message: "monitorDashboard must be a valid http(s) URL" }]);
+
+    const empty = validateSchema({ ...validConfig, qaStatusDashboard: "" }, publisherConfigSchema);
+    expect(empty).toEqual([{ path: "$.qaStatusDashboard", message: "qaStatusDashboard must be a valid http(s) URL" }]);
+  });
+
+  it("should reject unknown keys on pages", () => {
+    const errors = validateSchema({ ...validConfig, pages: [{ ...validConfig.pages[0], color: "red" }] }, publisherConfigSchema);
+    expect(errors).toEqual([{ path: "$.pages[0].color", message: "pages[0].color is not allowed" }]);
+  });
+
+  it("should quote keys that are not identifiers in paths", () => {
+    const errors = validateSchema({ ...validConfig, "my key": {} }, publisherConfigSchema);
+    expect(errors).toEqual([{ path: '$["my key"]', message: '["my key"] has an unsupported value' }]);
+  });
+});
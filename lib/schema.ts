@@ -0,0 +1,237 @@
+import type { Page, PublisherConfig } from "../types/interfaces.js";
+
+// Subset of JSON Schema (draft 2020-12) used to describe configs. The same
+// object is served to the frontend from GET /api/schema.
+export interface JsonSchema {
+    type?: "string" | "number" | "integer" | "boolean" | "array" | "object" | "null";
+    title?: string;
+    description?: string;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    format?: "uri";
+    items?: JsonSchema;
+    uniqueItems?: boolean;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: JsonSchema | boolean;
+    anyOf?: JsonSchema[];
+}
+
+// A single violation, `path` is a JSON path such as $.pages[0].selector
+export interface SchemaError {
+    path: string;
+    message: string;
+}
+
+// Keys declared on a type, without its index signature
+type KnownKeys<T> = keyof { [K in keyof T as string extends K ? never : number extends K ? never : K]: T[K] };
+type RequiredKnownKeys<T> = { [K in KnownKeys<T>]-?: {} extends Pick<T, K> ? never : K }[KnownKeys<T>];
+
+// Object schema whose properties must list exactly the declared keys of T,
+// so adding a field to an interface without describing it fails to compile
+interface ObjectSchemaFor<T> extends JsonSchema {
+    type: "object";
+    properties: Record<KnownKeys<T>, JsonSchema>;
+    required: RequiredKnownKeys<T>[];
+}
+
+const nonEmptyString = (title: string, maxLength: number): JsonSchema => ({
+    type: "string",
+    title,
+    minLength: 1,
+    maxLength,
+    pattern: "\\S"
+});
+
+const dashboardUrl = (title: string): JsonSchema => ({
+    type: "string",
+    title,
+    format: "uri",
+    maxLength: 2000
+});
+
+const PAGE_REQUIRED = ["pageType", "selector", "position"] as const;
+
+export const pageSchema: ObjectSchemaFor<Page> = {
+    type: "object",
+    title: "Page placement",
+    properties: {
+        pageType: nonEmptyString("Page type", 100),
+        selector: nonEmptyString("CSS selector", 500),
+        position: nonEmptyString("Position", 100)
+    },
+    required: [...PAGE_REQUIRED],
+    additionalProperties: false
+};
+
+const PUBLISHER_REQUIRED = [
+    "publisherId",
+    "aliasName",
+    "isActive",
+    "pages",
+    "publisherDashboard",
+    "monitorDashboard",
+    "qaStatusDashboard"
+] as const;
+
+export const publisherConfigSchema: ObjectSchemaFor<PublisherConfig> = {
+    type: "object",
+    title: "Publisher configuration",
+    properties: {
+        publisherId: nonEmptyString("Publisher ID", 100),
+        aliasName: nonEmptyString("Alias name", 200),
+        isActive: { type: "boolean", title: "Active" },
+        pages: { type: "array", title: "Pages", items: pageSchema },
+        publisherDashboard: dashboardUrl("Publisher dashboard"),
+        monitorDashboard: dashboardUrl("Monitor dashboard"),
+        qaStatusDashboard: dashboardUrl("QA status dashboard"),
+        customCss: { type: "string", title: "Custom CSS", maxLength: 100_000 },
+        tags: {
+            type: "array",
+            title: "Tags",
+            items: { type: "string", minLength: 1, maxLength: 50, pattern: "\\S" },
+            uniqueItems: true
+        },
+        notes: { type: "string", title: "Notes", maxLength: 5000 }
+    },
+    required: [...PUBLISHER_REQUIRED],
+    // Extra keys are allowed as long as they hold a ConfigValue
+    additionalProperties: {
+        anyOf: [
+            { type: "string" },
+            { type: "number" },
+            { type: "boolean" },
+            { type: "null" },
+            { type: "array", items: { anyOf: [{ type: "string" }, pageSchema] } }
+        ]
+    }
+};
+
+// Compile-time checks that the required lists cover every required key of the interfaces
+const _pageRequiredInSync: Exclude<RequiredKnownKeys<Page>, typeof PAGE_REQUIRED[number]> extends never ? true : never = true;
+const _publisherRequiredInSync: Exclude<RequiredKnownKeys<PublisherConfig>, typeof PUBLISHER_REQUIRED[number]> extends never ? true : never = true;
+void _pageRequiredInSync;
+void _publisherRequiredInSync;
+
+// Human readable field name used in messages ("pages[0].selector", "config" for the root)
+function fieldName(path: string): string {
+    return path === "$" ? "config" : path.replace(/^\$\.?/, "");
+}
+
+function typeOf(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    return typeof value;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema["type"]>): boolean {
+    switch (type) {
+        case "integer":
+            return Number.isInteger(value);
+        case "number":
+            return typeof value === "number" && Number.isFinite(value);
+        default:
+            return typeOf(value) === type;
+    }
+}
+
+function isHttpUrl(value: string): boolean {
+    try {
+        const url = new URL(value);
+        return url.protocol === "http:" || url.protocol === "https:";
+    } catch {
+        return false;
+    }
+}
+
+function childPath(path: string, key: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function validateValue(value: unknown, schema: JsonSchema, path: string, errors: SchemaError[]): void {
+    const name = fieldName(path);
+
+    if (schema.anyOf) {
+        const matches = schema.anyOf.some(option => {
+            const optionErrors: SchemaError[] = [];
+            validateValue(value, option, path, optionErrors);
+            return optionErrors.length === 0;
+        });
+        if (!matches) {
+            errors.push({ path, message: `${name} has an unsupported value` });
+        }
+        return;
+    }
+
+    if (schema.type && !matchesType(value, schema.type)) {
+        const article = schema.type === "array" || schema.type === "object" || schema.type === "integer" ? "an" : "a";
+        errors.push({ path, message: `${name} must be ${article} ${schema.type}` });
+        return;
+    }
+
+    if (typeof value === "string") {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            errors.push({ path, message: `${name} must not be empty` });
+        } else if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+            errors.push({ path, message: `${name} has an invalid format` });
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            errors.push({ path, message: `${name} must be ${schema.maxLength} characters or less` });
+        }
+        if (schema.format === "uri" && !isHttpUrl(value)) {
+            errors.push({ path, message: `${name} must be a valid http(s) URL` });
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.items) {
+            value.forEach((item, index) => validateValue(item, schema.items!, `${path}[${index}]`, errors));
+        }
+        if (schema.uniqueItems) {
+            const seen = new Set<string>();
+            value.forEach((item, index) => {
+                const key = JSON.stringify(item);
+                if (seen.has(key)) {
+                    errors.push({ path: `${path}[${index}]`, message: `${name} must not contain duplicates` });
+                }
+                seen.add(key);
+            });
+        }
+    }
+
+    if (typeOf(value) === "object" && (schema.properties || schema.additionalProperties !== undefined)) {
+        const record = value as Record<string, unknown>;
+        const properties = schema.properties || {};
+
+        for (const key of schema.required || []) {
+            if (record[key] === undefined) {
+                errors.push({ path: childPath(path, key), message: `${fieldName(childPath(path, key))} is required` });
+            }
+        }
+
+        for (const [key, propertySchema] of Object.entries(properties)) {
+            if (record[key] !== undefined) {
+                validateValue(record[key], propertySchema, childPath(path, key), errors);
+            }
+        }
+
+        for (const key of Object.keys(record)) {
+            if (key in properties) {
+                continue;
+            }
+            if (schema.additionalProperties === false) {
+                errors.push({ path: childPath(path, key), message: `${fieldName(childPath(path, key))} is not allowed` });
+            } else if (typeof schema.additionalProperties === "object") {
+                validateValue(record[key], schema.additionalProperties, childPath(path, key), errors);
+            }
+        }
+    }
+}
+
+// Validate a value against a schema and collect every violation
+export function validateSchema(value: unknown, schema: JsonSchema): SchemaError[] {
+    const errors: SchemaError[] = [];
+    validateValue(value, schema, "$", errors);
+    return errors;
+}
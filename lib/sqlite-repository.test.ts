@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { createSqliteRepository, type SqlitePublisherRepository } from "./sqlite-repository.js";
+import { computeEtag } from "./etag.js";
+import type { PublisherConfig } from "../types/interfaces.js";
+
+const config = (publisherId: string, aliasName: string): PublisherConfig => ({
+  publisherId,
+  aliasName,
+  isActive: true,
+  tags: ["news"],
+  pages: [{ pageType: "text", selector: "main", position: "top" }],
+  publisherDashboard: "https://mixpanel.com/project/101/dashboards/5001",
+  monitorDashboard: "https://grafana.example.com/d/aur0ra01",
+  qaStatusDashboard: "https://internal.example.com/qa/aurora/status"
+});
+
+describe("SQLite publisher repository", () => {
+  let repository: SqlitePublisherRepository;
+
+  beforeEach(() => {
+    repository = createSqliteRepository(":memory:");
+  });
+
+  afterEach(() => {
+    repository.close();
+  });
+
+  it("should create, list and read publishers", async () => {
+    const saved = await repository.create("b.json", config("pub-b", "Borealis"), { actor: "alice" });
+    await repository.create("a.json", config("pub-a", "Aurora"), { actor: "alice" });
+
+    expect(saved.item).toEqual({
+      id: "pub-b",
+      alias: "Borealis",
+      file: "b.json",
+      isActive: true,
+      tags: ["news"],
+      pageCount: 1,
+      updatedAt: expect.any(String)
+    });
+    expect(saved.revision).toMatchObject({ revision: 1, action: "create", actor: "alice" });
+    expect((await repository.list()).map(item => item.file)).toEqual(["a.json", "b.json"]);
+    expect(await repository.get("b.json")).toEqual({ config: config("pub-b", "Borealis"), content: saved.content });
+    expect(await repository.exists("c.json")).toBe(false);
+  });
+
+  it("should refuse an existing file or a publisherId used by another file", async () => {
+    await repository.create("a.json", config("pub-a", "Aurora"), { actor: "alice" });
+
+    await expect(repository.create("a.json", config("pub-z", "Z"), { actor: "alice" })).rejects.toThrow("Publisher config already exists");
+    await expect(repository.create("b.json", config("pub-a", "Copy"), { actor: "alice" }))
+      .rejects.toThrow('Publisher with ID "pub-a" already exists in file "a.json"');
+    expect(await repository.list()).toHaveLength(1);
+  });
+
+  it("should check If-Match on update and delete", async () => {
+    const created = await repository.create("a.json", config("pub-a", "Aurora"), { actor: "alice" });
+
+    await expect(repository.update("a.json", config("pub-a", "Stale"), { actor: "bob", ifMatch: "\"stale\"" }))
+      .rejects.toThrow("Precondition failed");
+    const updated = await repository.update("a.json", config("pub-a", "Aurora Media"), { actor: "bob", ifMatch: computeEtag(created.content) });
+    expect(updated.item.alias).toBe("Aurora Media");
+
+    await expect(repository.delete("a.json", { actor: "bob", ifMatch: computeEtag(created.content) })).rejects.toThrow("Precondition failed");
+    await expect(repository.delete("missing.json", { actor: "bob" })).rejects.toThrow("Publisher config not found");
+  });
+
+  it("should follow a changed publisherId in the list", async () => {
+    await repository.create("a.json", config("pub-a", "Aurora"), { actor: "alice" });
+    await repository.create("b.json", config("pub-b", "Borealis"), { actor: "alice" });
+
+    expect((await repository.update("a.json", config("pub-aurora", "Aurora"), { actor: "bob" })).item.id).toBe("pub-aurora");
+    await expect(repository.update("a.json", config("pub-b", "Aurora"), { actor: "bob" }))
+      .rejects.toThrow('Publisher with ID "pub-b" already exists in file "b.json"');
+  });
+
+  it("should rename a publisher with its history", async () => {
+    await repository.create("a.json", config("pub-a", "Aurora"), { actor: "alice" });
+    await repository.create("b.json", config("pub-b", "Borealis"), { actor: "alice" });
+
+    const renamed = await repository.rename("a.json", { filename: "aurora.json", publisherId: "pub-aurora" }, { actor: "bob" });
+
+    expect(renamed.item).toMatchObject({ id: "pub-aurora", file: "aurora.json" });
+    expect(await repository.exists("a.json")).toBe(false);
+    expect((await repository.listRevisions("aurora.json")).map(revision => revision.action)).toEqual(["rename", "create"]);
+    await expect(repository.rename("aurora.json", { filename: "b.json", publisherId: "pub-aurora" }, { actor: "bob" }))
+      .rejects.toThrow("Publisher config already exists");
+    await expect(repository.rename("aurora.json", { filename: "aurora.json", publisherId: "pub-b" }, { actor: "bob" }))
+      .rejects.toThrow('Publisher with ID "pub-b" already exists in file "b.json"');
+  });
+
+  it("should update several publishers in one transaction", async () => {
+    const a = await repository.create("a.json", config("pub-a", "Aurora"), { actor: "alice" });
+    const b = await repository.create("b.json", config("pub-b", "Borealis"), { actor: "alice" });
+
+    await expect(repository.updateMany([
+      { filename: "a.json", config: { ...config("pub-a", "Aurora"), isActive: false }, ifMatch: computeEtag(a.content) },
+      { filename: "b.json", config: { ...config("pub-b", "Borealis"), isActive: false }, ifMatch: "\"stale\"" }
+    ], { actor: "bob" })).rejects.toThrow("Precondition failed");
+    expect((await repository.list()).map(item => item.isActive)).toEqual([true, true]);
+
+    const saved = await repository.updateMany([
+      { filename: "a.json", config: { ...config("pub-a", "Aurora"), isActive: false }, ifMatch: computeEtag(a.content) },
+      { filename: "b.json", config: { ...config("pub-b", "Borealis"), isActive: false }, ifMatch: computeEtag(b.content) }
+    ], { actor: "bob" });
+    expect(saved.map(result => [result.item.file, result.revision.revision, result.previousContent])).toEqual([["a.json", 2, a.content], ["b.json", 2, b.content]]);
+    expect((await repository.list()).map(item => item.isActive)).toEqual([false, false]);
+  });
+
+  it("should keep history across delete and restore", async () => {
+    await repository.create("a.json", config("pub-a", "Aurora"), { actor: "alice" });
+    await repository.update("a.json", config("pub-a", "Aurora Media"), { actor: "bob" });
+    await repository.delete("a.json", { actor: "carol" });
+
+    expect(await repository.get("a.json")).toBeNull();
+    expect((await repository.listRevisions("a.json")).map(revision => [revision.revision, revision.action]))
+      .toEqual([[3, "delete"], [2, "update"], [1, "create"]]);
+
+    const restored = await repository.restore("a.json", 1, { actor: "dave" });
+
+    expect(restored.revision).toMatchObject({ revision: 4, action: "restore", actor: "dave" });
+    expect((await repository.get("a.json"))?.config.aliasName).toBe("Aurora");
+    await expect(repository.restore("a.json", 9, { actor: "dave" })).rejects.toThrow("Revision not found");
+  });
+
+  it("should import migrated publishers with their content and history", async () => {
+    const content = JSON.stringify(config("pub-a", "Aurora"), null, 2);
+    repository.importPublisher(
+      { id: "pub-a", alias: "Aurora", file: "a.json" },
+      content,
+      [{ revision: 7, filename: "a.json", publisherId: "pub-a", action: "update", actor: "alice", timestamp: "2024-01-01T00:00:00.000Z", config: config("pub-a", "Aurora") }]
+    );
+
+    expect(await repository.list()).toEqual([{ id: "pub-a", alias: "Aurora", file: "a.json", tags: [], pageCount: 0 }]);
+    expect((await repository.get("a.json"))?.content).toBe(content);
+    expect((await repository.update("a.json", config("pub-a", "Aurora"), { actor: "bob" })).revision.revision).toBe(8);
+  });
+});
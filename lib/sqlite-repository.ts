@@ -0,0 +1,336 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import { sortPublishers, toListItem } from "./publishers-list.js";
+import { commitChanges } from "./storage.js";
+import {
+    DEFAULT_SQLITE_PATH,
+    changesPublisherId,
+    checkPrecondition,
+    serializeConfig,
+    type PublisherRepository,
+    type SaveResult
+} from "./repository.js";
+import type {
+    PublisherConfig,
+    PublisherListItem,
+    PublisherRevision,
+    PublisherRevisionSummary,
+    RevisionAction
+} from "../types/interfaces.js";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS publishers (
+    file TEXT PRIMARY KEY,
+    id TEXT NOT NULL,
+    alias TEXT NOT NULL,
+    is_active INTEGER,
+    tags TEXT NOT NULL DEFAULT '[]',
+    page_count INTEGER NOT NULL DEFAULT 0,
+    updated_at TEXT,
+    content TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS publishers_by_id ON publishers (id);
+
+CREATE TABLE IF NOT EXISTS revisions (
+    file TEXT NOT NULL,
+    revision INTEGER NOT NULL,
+    publisher_id TEXT NOT NULL,
+    action TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    config TEXT NOT NULL,
+    PRIMARY KEY (file, revision)
+);
+`;
+
+// How long a write waits for another process holding the database lock before
+// failing with "database is locked" (same setting as the lock files of the JSON backend)
+const BUSY_TIMEOUT_MS = Number(process.env.LOCK_TIMEOUT_MS) || 10_000;
+
+interface PublisherRow {
+    file: string;
+    id: string;
+    alias: string;
+    is_active: number | null;
+    tags: string;
+    page_count: number;
+    updated_at: string | null;
+    content: string;
+}
+
+interface RevisionRow {
+    file: string;
+    revision: number;
+    publisher_id: string;
+    action: RevisionAction;
+    actor: string;
+    timestamp: string;
+    config: string;
+}
+
+function toItem(row: PublisherRow): PublisherListItem {
+    return {
+        id: row.id,
+        alias: row.alias,
+        file: row.file,
+        ...(row.is_active !== null && { isActive: row.is_active === 1 }),
+        tags: JSON.parse(row.tags),
+        pageCount: row.page_count,
+        ...(row.updated_at !== null && { updatedAt: row.updated_at })
+    };
+}
+
+function toRow(item: PublisherListItem, content: string): PublisherRow {
+    return {
+        file: item.file,
+        id: item.id,
+        alias: item.alias,
+        is_active: typeof item.isActive === "boolean" ? Number(item.isActive) : null,
+        tags: JSON.stringify(item.tags || []),
+        page_count: item.pageCount || 0,
+        updated_at: item.updatedAt || null,
+        content
+    };
+}
+
+function toSummary(row: RevisionRow): PublisherRevisionSummary {
+    return {
+        revision: row.revision,
+        filename: row.file,
+        publisherId: row.publisher_id,
+        action: row.action,
+        actor: row.actor,
+        timestamp: row.timestamp
+    };
+}
+
+// Repository with extra entry points used by the JSON to SQLite migration
+export interface SqlitePublisherRepository extends PublisherRepository {
+    // Insert or replace a publisher (null item: history only) together with its revisions
+    importPublisher(item: PublisherListItem | null, content: string | null, revisions: PublisherRevision[]): void;
+    close(): void;
+}
+
+// Publishers, list summaries and revisions in a single SQLite database. Writes run in
+// IMMEDIATE transactions, so several server processes can share one database file.
+export function createSqliteRepository(databasePath: string = DEFAULT_SQLITE_PATH): SqlitePublisherRepository {
+    if (databasePath !== ":memory:") {
+        fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+    }
+
+    const db = new Database(databasePath);
+    db.pragma("journal_mode = WAL");
+    db.pragma(`busy_timeout = ${BUSY_TIMEOUT_MS}`);
+    db.exec(SCHEMA);
+
+    const statements = {
+        list: db.prepare<[], PublisherRow>("SELECT * FROM publishers"),
+        get: db.prepare<[string], PublisherRow>("SELECT * FROM publishers WHERE file = ?"),
+        findOtherById: db.prepare<[string, string], { file: string }>("SELECT file FROM publishers WHERE id = ? AND file != ? LIMIT 1"),
+        upsert: db.prepare<PublisherRow>(`
+            INSERT INTO publishers (file, id, alias, is_active, tags, page_count, updated_at, content)
+            VALUES (@file, @id, @alias, @is_active, @tags, @page_count, @updated_at, @content)
+            ON CONFLICT (file) DO UPDATE SET
+                id = excluded.id, alias = excluded.alias, is_active = excluded.is_active, tags = excluded.tags,
+                page_count = excluded.page_count, updated_at = excluded.updated_at, content = excluded.content
+        `),
+        remove: db.prepare<[string]>("DELETE FROM publishers WHERE file = ?"),
+        lastRevision: db.prepare<[string], { revision: number | null }>("SELECT MAX(revision) AS revision FROM revisions WHERE file = ?"),
+        insertRevision: db.prepare<RevisionRow>(`
+            INSERT OR REPLACE INTO revisions (file, revision, publisher_id, action, actor, timestamp, config)
+            VALUES (@file, @revision, @publisher_id, @action, @actor, @timestamp, @config)
+        `),
+        moveRevisions: db.prepare<[string, string]>("UPDATE revisions SET file = ? WHERE file = ?"),
+        listRevisions: db.prepare<[string], RevisionRow>("SELECT * FROM revisions WHERE file = ? ORDER BY revision DESC"),
+        getRevision: db.prepare<[string, number], RevisionRow>("SELECT * FROM revisions WHERE file = ? AND revision = ?")
+    };
+
+    function assertIdAvailable(publisherId: string, filename: string): void {
+        const conflicting = statements.findOtherById.get(publisherId, filename);
+        if (conflicting) {
+            throw new Error(`Publisher with ID "${publisherId}" already exists in file "${conflicting.file}"`);
+        }
+    }
+
+    function recordRevision(filename: string, config: PublisherConfig, action: RevisionAction, actor: string): PublisherRevisionSummary {
+        const row: RevisionRow = {
+            file: filename,
+            revision: (statements.lastRevision.get(filename)?.revision || 0) + 1,
+            publisher_id: config.publisherId,
+            action,
+            actor,
+            timestamp: new Date().toISOString(),
+            config: JSON.stringify(config)
+        };
+        statements.insertRevision.run(row);
+        return toSummary(row);
+    }
+
+    function save(filename: string, config: PublisherConfig, item: PublisherListItem, action: RevisionAction, actor: string): SaveResult {
+        const previousContent = statements.get.get(filename)?.content ?? null;
+        const content = serializeConfig(config);
+        statements.upsert.run(toRow(item, content));
+        return { item, content, previousContent, revision: recordRevision(filename, config, action, actor) };
+    }
+
+    // Must run in a write transaction. An existing list entry keeps its ID unless the
+    // publisherId of the config changes.
+    function update(filename: string, config: PublisherConfig, actor: string, ifMatch: string | undefined): SaveResult {
+        const existing = statements.get.get(filename);
+        checkPrecondition(ifMatch, existing ? existing.content : null);
+
+        const renamed = changesPublisherId(existing ? existing.content : null, config);
+        if (renamed) {
+            assertIdAvailable(config.publisherId, filename);
+        }
+        const item = toListItem(filename, config);
+        return save(filename, config, existing && !renamed ? { ...item, id: existing.id } : item, "update", actor);
+    }
+
+    // Transactions take the write lock up front so concurrent writers queue on busy_timeout
+    function writeTransaction<T>(operation: () => T): T {
+        return db.transaction(operation).immediate();
+    }
+
+    return {
+        backend: "sqlite",
+
+        async init() {
+            // The schema is created when the database is opened
+        },
+
+        async isAvailable() {
+            try {
+                db.prepare("SELECT 1").get();
+                return true;
+            } catch {
+                return false;
+            }
+        },
+
+        async version() {
+            return String(db.pragma("data_version", { simple: true }));
+        },
+
+        async list() {
+            return sortPublishers(statements.list.all().map(toItem));
+        },
+
+        async get(filename) {
+            const row = statements.get.get(filename);
+            return row ? { config: JSON.parse(row.content), content: row.content } : null;
+        },
+
+        async exists(filename) {
+            return statements.get.get(filename) !== undefined;
+        },
+
+        async create(filename, config, { actor }) {
+            return writeTransaction(() => {
+                if (statements.get.get(filename)) {
+                    throw new Error("Publisher config already exists");
+                }
+                assertIdAvailable(config.publisherId, filename);
+                return save(filename, config, toListItem(filename, config), "create", actor);
+            });
+        },
+
+        async update(filename, config, { actor, ifMatch }) {
+            return writeTransaction(() => update(filename, config, actor, ifMatch));
+        },
+
+        async delete(filename, { actor, ifMatch }) {
+            return writeTransaction(() => {
+                const existing = statements.get.get(filename);
+                if (!existing) {
+                    throw new Error("Publisher config not found");
+                }
+                checkPrecondition(ifMatch, existing.content);
+
+                const revision = recordRevision(filename, JSON.parse(existing.content), "delete", actor);
+                statements.remove.run(filename);
+                return { content: existing.content, revision };
+            });
+        },
+
+        async updateMany(updates, { actor, files = [] }) {
+            const results = writeTransaction(() => updates.map(({ filename, config, ifMatch }) => update(filename, config, actor, ifMatch)));
+            await commitChanges(files);
+            return results;
+        },
+
+        async rename(filename, target, { actor, ifMatch }) {
+            return writeTransaction(() => {
+                const existing = statements.get.get(filename);
+                if (!existing) {
+                    throw new Error("Publisher config not found");
+                }
+                checkPrecondition(ifMatch, existing.content);
+
+                const moved = target.filename !== filename;
+                if (moved && (statements.get.get(target.filename) || statements.lastRevision.get(target.filename)?.revision)) {
+                    throw new Error("Publisher config already exists");
+                }
+
+                const config: PublisherConfig = { ...JSON.parse(existing.content), publisherId: target.publisherId };
+                const renamed = changesPublisherId(existing.content, config);
+                if (renamed) {
+                    assertIdAvailable(config.publisherId, filename);
+                }
+
+                const item = toListItem(target.filename, config);
+                statements.remove.run(filename);
+                statements.moveRevisions.run(target.filename, filename);
+                return {
+                    ...save(target.filename, config, renamed ? item : { ...item, id: existing.id }, "rename", actor),
+                    previousContent: existing.content
+                };
+            });
+        },
+
+        async listRevisions(filename) {
+            return statements.listRevisions.all(filename).map(toSummary);
+        },
+
+        async getRevision(filename, revision) {
+            const row = statements.getRevision.get(filename, revision);
+            return row ? { ...toSummary(row), config: JSON.parse(row.config) } : null;
+        },
+
+        async restore(filename, revisionNumber, { actor }) {
+            return writeTransaction(() => {
+                const entry = statements.getRevision.get(filename, revisionNumber);
+                if (!entry) {
+                    throw new Error("Revision not found");
+                }
+                const config: PublisherConfig = JSON.parse(entry.config);
+                assertIdAvailable(config.publisherId, filename);
+                return save(filename, config, toListItem(filename, config), "restore", actor);
+            });
+        },
+
+        importPublisher(item, content, revisions) {
+            writeTransaction(() => {
+                if (item && content !== null) {
+                    statements.upsert.run(toRow(item, content));
+                }
+                for (const entry of revisions) {
+                    statements.insertRevision.run({
+                        file: entry.filename,
+                        revision: entry.revision,
+                        publisher_id: entry.publisherId,
+                        action: entry.action,
+                        actor: entry.actor,
+                        timestamp: entry.timestamp,
+                        config: JSON.stringify(entry.config)
+                    });
+                }
+            });
+        },
+
+        close() {
+            db.close();
+        }
+    };
+}
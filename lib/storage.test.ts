@@ -0,0 +1,109 @@
+import { describe, it, expect, jest, beforeEach } from "@jest/globals";
+import path from "path";
+import fs from "fs/promises";
+import { DATA_DIR } from "./paths.js";
+import { commitChanges, recoverJournal, writeFileAtomic, JOURNAL_DIR } from "./storage.js";
+import { mockMemoryFs } from "./memory-fs.test-utils.js";
+
+jest.mock("fs/promises");
+const mockedFs = jest.mocked(fs);
+
+// In-memory file system keyed by absolute path, with the modification times of files
+// that were not just written
+let files: Map<string, string>;
+let mtimes: Map<string, number>;
+
+beforeEach(() => {
+  ({ files, mtimes } = mockMemoryFs());
+});
+
+const dataFile = (name: string) => path.join(DATA_DIR, name);
+
+describe("writeFileAtomic", () => {
+  it("should write through a flushed temp file and leave no temp file behind", async () => {
+    await writeFileAtomic(dataFile("pub1.json"), "{}");
+
+    expect(mockedFs.writeFile).toHaveBeenCalledWith(expect.stringMatching(/pub1\.json\.\d+\.[0-9a-f]{8}\.tmp$/), "{}", { encoding: "utf-8", flush: true });
+    expect([...files.keys()]).toEqual([dataFile("pub1.json")]);
+  });
+
+  it("should refuse to replace an existing file in exclusive mode", async () => {
+    files.set(dataFile("000001.json"), "old");
+
+    await expect(writeFileAtomic(dataFile("000001.json"), "new", { exclusive: true })).rejects.toThrow("EEXIST");
+    expect([...files.entries()]).toEqual([[dataFile("000001.json"), "old"]]);
+  });
+});
+
+describe("commitChanges", () => {
+  it("should apply every change and remove the journal", async () => {
+    files.set(dataFile("pub1.json"), "old config");
+    files.set(dataFile("publishers.json"), "old index");
+
+    await commitChanges([
+      { path: dataFile("pub1.json"), content: null },
+      { path: dataFile("publishers.json"), content: "new index" }
+    ]);
+
+    expect(Object.fromEntries(files)).toEqual({ [dataFile("publishers.json")]: "new index" });
+  });
+
+  it("should roll back the changes already applied when one fails", async () => {
+    files.set(dataFile("publishers.json"), "old index");
+    const rename = mockedFs.rename.getMockImplementation()!;
+    mockedFs.rename.mockImplementation(async (from, to) => {
+      if (to === dataFile("publishers.json") && files.get(String(from)) === "new index") {
+        throw new Error("ENOSPC: no space left on device");
+      }
+      return rename(from, to);
+    });
+
+    await expect(commitChanges([
+      { path: dataFile("pub1.json"), content: "new config" },
+      { path: dataFile("publishers.json"), content: "new index" }
+    ])).rejects.toThrow("ENOSPC");
+
+    expect(files.get(dataFile("publishers.json"))).toBe("old index");
+    expect(files.has(dataFile("pub1.json"))).toBe(false);
+    expect([...files.keys()].filter(file => file.startsWith(JOURNAL_DIR))).toEqual([]);
+  });
+});
+
+describe("recoverJournal", () => {
+  it("should roll back an interrupted transaction and clean up temp files", async () => {
+    // Crashed after the config was written but before the index was updated
+    files.set(path.join(JOURNAL_DIR, "1700000000000-abcd1234.json"), JSON.stringify({
+      id: "1700000000000-abcd1234",
+      createdAt: "2023-11-14T22:13:20.000Z",
+      changes: [
+        { file: "new.json", before: null },
+        { file: "publishers.json", before: "old index" }
+      ]
+    }));
+    files.set(dataFile("new.json"), "new config");
+    files.set(dataFile("publishers.json"), "old index");
+    files.set(dataFile("publishers.json.123.0badf00d.tmp"), "new ind");
+
+    const rolledBack = await recoverJournal();
+
+    expect(rolledBack).toEqual(["1700000000000-abcd1234"]);
+    expect(Object.fromEntries(files)).toEqual({ [dataFile("publishers.json")]: "old index" });
+  });
+
+  it("should leave temp files of other processes' writes in progress alone", async () => {
+    files.set(dataFile("api-keys.json.123.0badf00d.tmp"), "keys being written");
+    files.set(dataFile("vocabularies.json.456.0badf00d.tmp"), "left by a crash");
+    mtimes.set(dataFile("vocabularies.json.456.0badf00d.tmp"), Date.now() - 24 * 60 * 60 * 1000);
+
+    await recoverJournal();
+
+    expect([...files.keys()]).toEqual([dataFile("api-keys.json.123.0badf00d.tmp")]);
+  });
+
+  it("should do nothing without a journal", async () => {
+    files.set(dataFile("publishers.json"), "index");
+
+    expect(await recoverJournal()).toEqual([]);
+    expect(mockedFs.writeFile).not.toHaveBeenCalled();
+  });
+});
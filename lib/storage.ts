@@ -0,0 +1,206 @@
+import path from "path";
+import fs from "fs/promises";
+import crypto from "crypto";
+import { DATA_DIR } from "./paths.js";
+import { LOCK_STALE_MS } from "./locks.js";
+
+// Pending multi-file transactions, rolled back on startup if the process died mid-commit
+export const JOURNAL_DIR = path.join(DATA_DIR, ".journal");
+
+const TEMP_FILE_PATTERN = /\.\d+\.[0-9a-f]{8}\.tmp$/;
+
+// New content of a file, `null` deletes it
+export interface FileChange {
+    path: string;
+    content: string | null;
+}
+
+interface JournalEntry {
+    id: string;
+    createdAt: string;
+    // Paths relative to DATA_DIR with their content before the transaction (null: did not exist)
+    changes: { file: string; before: string | null }[];
+}
+
+function tempPathFor(filePath: string): string {
+    return `${filePath}.${process.pid}.${crypto.randomBytes(4).toString("hex")}.tmp`;
+}
+
+// Persist the rename itself. Not every platform can fsync a directory, so this is best effort.
+async function syncDirectory(dir: string): Promise<void> {
+    try {
+        const handle = await fs.open(dir, "r");
+        try {
+            await handle.sync();
+        } finally {
+            await handle.close();
+        }
+    } catch {
+        // Ignored, the data itself has already been flushed
+    }
+}
+
+async function removeQuietly(filePath: string): Promise<void> {
+    try {
+        await fs.unlink(filePath);
+    } catch {
+        // Already gone
+    }
+}
+
+// Write a file so readers see either the old or the new content, never a truncated one:
+// the data goes to a temp file in the same directory, is flushed to disk and then
+// renamed over the target. With `exclusive` the write fails if the target exists.
+export async function writeFileAtomic(filePath: string, content: string, options: { exclusive?: boolean } = {}): Promise<void> {
+    const tempPath = tempPathFor(filePath);
+    try {
+        await fs.writeFile(tempPath, content, { encoding: "utf-8", flush: true });
+        if (options.exclusive) {
+            // link() refuses to replace an existing file, unlike rename()
+            await fs.link(tempPath, filePath);
+            await fs.unlink(tempPath);
+        } else {
+            await fs.rename(tempPath, filePath);
+        }
+    } catch (error) {
+        await removeQuietly(tempPath);
+        throw error;
+    }
+    await syncDirectory(path.dirname(filePath));
+}
+
+// Temp files of other processes' writes in progress must not be removed. One that has
+// been around for longer than a lock can be held was left by a crash.
+async function isAbandoned(tempPath: string): Promise<boolean> {
+    try {
+        return Date.now() - (await fs.stat(tempPath)).mtimeMs > LOCK_STALE_MS;
+    } catch {
+        return false;
+    }
+}
+
+async function readCurrent(filePath: string): Promise<string | null> {
+    try {
+        return await fs.readFile(filePath, "utf-8");
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (errorMessage.includes("ENOENT")) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+async function applyChange(change: FileChange): Promise<void> {
+    if (change.content === null) {
+        try {
+            await fs.unlink(change.path);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : "Unknown error";
+            if (!errorMessage.includes("ENOENT")) {
+                throw error;
+            }
+        }
+        await syncDirectory(path.dirname(change.path));
+    } else {
+        await writeFileAtomic(change.path, change.content);
+    }
+}
+
+async function rollBack(entry: JournalEntry): Promise<void> {
+    for (const change of [...entry.changes].reverse()) {
+        await applyChange({ path: path.join(DATA_DIR, change.file), content: change.before });
+    }
+}
+
+// Apply several file changes as one unit. The previous contents are journaled before
+// anything is touched; if a change fails the others are rolled back, and if the process
+// dies half-way recoverJournal() restores them on the next start. Callers must hold the
+// file locks of every changed file.
+export async function commitChanges(changes: FileChange[]): Promise<void> {
+    if (changes.length === 1) {
+        return applyChange(changes[0]);
+    }
+    if (changes.length === 0) {
+        return;
+    }
+
+    const entry: JournalEntry = {
+        id: `${Date.now()}-${crypto.randomBytes(4).toString("hex")}`,
+        createdAt: new Date().toISOString(),
+        changes: []
+    };
+    for (const change of changes) {
+        entry.changes.push({ file: path.relative(DATA_DIR, change.path), before: await readCurrent(change.path) });
+    }
+
+    await fs.mkdir(JOURNAL_DIR, { recursive: true });
+    const journalPath = path.join(JOURNAL_DIR, `${entry.id}.json`);
+    await writeFileAtomic(journalPath, JSON.stringify(entry, null, 2));
+
+    try {
+        for (const change of changes) {
+            await applyChange(change);
+        }
+    } catch (error) {
+        try {
+            await rollBack(entry);
+            await fs.unlink(journalPath);
+        } catch (rollbackError) {
+            console.error("Rollback failed, it will be retried on startup:", rollbackError);
+        }
+        throw error;
+    }
+
+    await fs.unlink(journalPath);
+}
+
+// Roll back transactions left unfinished by a crash and remove the temp files they left.
+// Must run at startup, before any request is served. Returns the rolled back journal ids.
+export async function recoverJournal(): Promise<string[]> {
+    const rolledBack: string[] = [];
+    // Files of the rolled back transactions, whose temp files are removed right away
+    const journaled = new Set<string>();
+
+    let entries: string[] = [];
+    try {
+        entries = await fs.readdir(JOURNAL_DIR);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (!errorMessage.includes("ENOENT")) {
+            throw error;
+        }
+    }
+
+    for (const name of entries.sort()) {
+        const entryPath = path.join(JOURNAL_DIR, name);
+        if (TEMP_FILE_PATTERN.test(name)) {
+            // A journal that was never completed, so none of its changes were applied
+            if (await isAbandoned(entryPath)) {
+                await removeQuietly(entryPath);
+            }
+            continue;
+        }
+        if (!name.endsWith(".json")) {
+            continue;
+        }
+
+        const entry: JournalEntry = JSON.parse(await fs.readFile(entryPath, "utf-8"));
+        await rollBack(entry);
+        await fs.unlink(entryPath);
+        rolledBack.push(entry.id);
+        entry.changes.forEach(change => journaled.add(change.file));
+    }
+
+    for (const name of await fs.readdir(DATA_DIR)) {
+        if (!TEMP_FILE_PATTERN.test(name)) {
+            continue;
+        }
+        const tempPath = path.join(DATA_DIR, name);
+        if (journaled.has(name.replace(TEMP_FILE_PATTERN, "")) || await isAbandoned(tempPath)) {
+            await removeQuietly(tempPath);
+        }
+    }
+
+    return rolledBack;
+}
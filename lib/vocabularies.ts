@@ -0,0 +1,115 @@
+import path from "path";
+import fs from "fs/promises";
+import { DATA_DIR } from "./paths.js";
+import { commitChanges, type FileChange } from "./storage.js";
+import type { SchemaError } from "./schema.js";
+import type { Page, PublisherConfig, Vocabularies, VocabularyEntry } from "../types/interfaces.js";
+
+export const VOCABULARIES_FILE = "vocabularies.json";
+
+export type VocabularyKind = keyof Vocabularies;
+
+// Page field each vocabulary controls
+export const VOCABULARY_FIELDS: Record<VocabularyKind, keyof Page> = {
+    pageTypes: "pageType",
+    positions: "position"
+};
+
+export function isVocabularyKind(kind: string): kind is VocabularyKind {
+    return Object.prototype.hasOwnProperty.call(VOCABULARY_FIELDS, kind);
+}
+
+function isEntryList(value: unknown): value is VocabularyEntry[] {
+    return Array.isArray(value) && value.every(entry =>
+        entry && typeof entry.value === "string" && typeof entry.label === "string"
+    );
+}
+
+// Read the registry. Returns null when it does not exist, in which case any
+// pageType/position is accepted.
+export async function readVocabularies(): Promise<Vocabularies | null> {
+    let data: string;
+    try {
+        data = await fs.readFile(path.join(DATA_DIR, VOCABULARIES_FILE), "utf-8");
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (errorMessage.includes("ENOENT")) {
+            return null;
+        }
+        throw error;
+    }
+
+    let vocabularies;
+    try {
+        vocabularies = JSON.parse(data);
+    } catch {
+        throw new Error("Failed to read vocabularies - file may be corrupted");
+    }
+
+    if (!vocabularies || !isEntryList(vocabularies.pageTypes) || !isEntryList(vocabularies.positions)) {
+        throw new Error("Invalid vocabularies.json structure");
+    }
+
+    return vocabularies;
+}
+
+// The write of the registry, for committing it together with other files
+export function vocabulariesChange(vocabularies: Vocabularies): FileChange {
+    return { path: path.join(DATA_DIR, VOCABULARIES_FILE), content: JSON.stringify(vocabularies, null, 2) };
+}
+
+// Must be called under the vocabularies.json file lock
+export async function writeVocabularies(vocabularies: Vocabularies): Promise<void> {
+    await commitChanges([vocabulariesChange(vocabularies)]);
+}
+
+// Check pages[].pageType and pages[].position against the registry
+export function checkVocabularies(config: PublisherConfig, vocabularies: Vocabularies): SchemaError[] {
+    const errors: SchemaError[] = [];
+    if (!Array.isArray(config.pages)) {
+        return errors;
+    }
+
+    config.pages.forEach((page, index) => {
+        for (const kind of Object.keys(VOCABULARY_FIELDS) as VocabularyKind[]) {
+            const field = VOCABULARY_FIELDS[kind];
+            const value = page?.[field];
+            if (typeof value !== "string" || value.trim() === "") {
+                continue;
+            }
+            if (!vocabularies[kind].some(entry => entry.value === value)) {
+                const allowed = vocabularies[kind].map(entry => entry.value).join(", ");
+                errors.push({
+                    path: `$.pages[${index}].${field}`,
+                    message: `pages[${index}].${field} "${value}" is not one of the allowed values: ${allowed}`
+                });
+            }
+        }
+    });
+
+    return errors;
+}
+
+// Replace a vocabulary value in the pages of a config. Returns null when nothing changed.
+export function renameVocabularyValue(
+    config: PublisherConfig,
+    kind: VocabularyKind,
+    from: string,
+    to: string
+): PublisherConfig | null {
+    if (!Array.isArray(config.pages)) {
+        return null;
+    }
+
+    const field = VOCABULARY_FIELDS[kind];
+    let changed = false;
+    const pages = config.pages.map(page => {
+        if (page && page[field] === from) {
+            changed = true;
+            return { ...page, [field]: to };
+        }
+        return page;
+    });
+
+    return changed ? { ...config, pages } : null;
+}
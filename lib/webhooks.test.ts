@@ -0,0 +1,102 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from "@jest/globals";
+import path from "path";
+import crypto from "crypto";
+import { DATA_DIR } from "./paths.js";
+import {
+  WEBHOOK_DELIVERIES_FILE,
+  createWebhook,
+  enqueueWebhookEvent,
+  parseWebhookRequest,
+  processWebhookDeliveries,
+  readWebhookDeliveries,
+  retryDelay,
+  webhookEventFor
+} from "./webhooks.js";
+import { mockMemoryFs } from "./memory-fs.test-utils.js";
+
+jest.mock("fs/promises");
+
+// In-memory file system keyed by absolute path
+let files: Map<string, string>;
+
+const config = { publisherId: "pub-aurora", aliasName: "Aurora", isActive: true, pages: [] };
+
+beforeEach(() => {
+  ({ files } = mockMemoryFs());
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("webhookEventFor", () => {
+  it("should report the changed fields and tell toggles from other updates", () => {
+    const before = JSON.stringify(config);
+    const toggled = webhookEventFor("UPDATE_PUBLISHER", { publisherId: "pub-aurora", filename: "aurora.json", before, after: JSON.stringify({ ...config, isActive: false, notes: "paused" }) });
+    expect(toggled).toMatchObject({ type: "toggled", publisherId: "pub-aurora", filename: "aurora.json", changedFields: ["isActive", "notes"], isActive: false });
+
+    expect(webhookEventFor("UPDATE_PUBLISHER", { before, after: JSON.stringify({ ...config, aliasName: "Aurora 2" }) }))
+      .toMatchObject({ type: "updated", changedFields: ["aliasName"] });
+    expect(webhookEventFor("DELETE_PUBLISHER", { before, after: null })).toMatchObject({ type: "deleted", isActive: true });
+    expect(webhookEventFor("UPDATE_PUBLISHER", { before, after: before })).toBeNull();
+    expect(webhookEventFor("CREATE_API_KEY", {})).toBeNull();
+  });
+});
+
+describe("parseWebhookRequest", () => {
+  it("should default to every event and reject other URLs", () => {
+    expect(parseWebhookRequest({ url: "https://cdn.example.com/hooks" }))
+      .toEqual({ url: "https://cdn.example.com/hooks", events: ["created", "updated", "deleted", "toggled"] });
+    expect(parseWebhookRequest({ url: "ftp://cdn.example.com" })).toBe("url must be an absolute http(s) URL");
+    expect(parseWebhookRequest({ url: "https://cdn.example.com", events: ["renamed"] })).toMatch(/^events must be/);
+  });
+});
+
+describe("deliveries", () => {
+  const queued = async () => {
+    const webhook = await createWebhook({ url: "https://qa.example.com/hooks", events: ["updated"] }, "admin");
+    await enqueueWebhookEvent("UPDATE_PUBLISHER", {
+      publisherId: "pub-aurora",
+      filename: "aurora.json",
+      before: JSON.stringify(config),
+      after: JSON.stringify({ ...config, isActive: false })
+    });
+    return webhook;
+  };
+
+  it("should send signed payloads and mark them delivered", async () => {
+    const webhook = await queued();
+    const fetchMock = jest.spyOn(globalThis, "fetch").mockImplementation(async () => new Response(null, { status: 204 }));
+
+    expect(await processWebhookDeliveries()).toBe(1);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://qa.example.com/hooks");
+    const headers = new Headers(init?.headers);
+    const body = String(init?.body);
+    const expected = crypto.createHmac("sha256", webhook.secret).update(`${headers.get("X-Webhook-Timestamp")}.${body}`).digest("hex");
+    expect(headers.get("X-Webhook-Signature")).toBe(`sha256=${expected}`);
+    expect(JSON.parse(body)).toMatchObject({ type: "toggled", publisherId: "pub-aurora", changedFields: ["isActive"] });
+
+    const [delivery] = await readWebhookDeliveries();
+    expect(delivery).toMatchObject({ status: "delivered", attempts: 1, lastStatus: 204 });
+    expect(await processWebhookDeliveries()).toBe(0);
+  });
+
+  it("should back off after failures and give up into the dead letters", async () => {
+    await queued();
+    jest.spyOn(globalThis, "fetch").mockImplementation(async () => new Response(null, { status: 503 }));
+
+    await processWebhookDeliveries();
+    const [retrying] = await readWebhookDeliveries();
+    expect(retrying).toMatchObject({ status: "pending", attempts: 1, lastError: "HTTP 503" });
+    expect(Date.parse(retrying.nextAttemptAt) - Date.parse(retrying.lastAttemptAt!)).toBe(retryDelay(1));
+    expect(retryDelay(3)).toBe(4 * retryDelay(1));
+
+    // Last allowed attempt
+    const store = path.join(DATA_DIR, WEBHOOK_DELIVERIES_FILE);
+    files.set(store, JSON.stringify({ deliveries: [{ ...retrying, attempts: 7, nextAttemptAt: new Date(0).toISOString() }] }));
+    await processWebhookDeliveries();
+    expect((await readWebhookDeliveries())[0]).toMatchObject({ status: "dead", attempts: 8 });
+  });
+});
@@ -0,0 +1,385 @@
+import path from "path";
+import fs from "fs/promises";
+import crypto from "crypto";
+import { DATA_DIR } from "./paths.js";
+import { withFileLock } from "./locks.js";
+import { writeFileAtomic } from "./storage.js";
+import { currentRequestContext } from "./request-context.js";
+import type { AuditChange } from "./audit.js";
+
+// Webhook subscriptions and their delivery queue, shared by both storage backends
+export const WEBHOOKS_FILE = "webhooks.json";
+export const WEBHOOK_DELIVERIES_FILE = "webhook-deliveries.json";
+
+// Deliveries are retried WEBHOOK_MAX_ATTEMPTS times, waiting WEBHOOK_RETRY_BASE_MS and
+// doubling after each failure, then moved to the dead letters
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8;
+const RETRY_BASE_MS = Number(process.env.WEBHOOK_RETRY_BASE_MS) || 30_000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS) || 10_000;
+
+// Delivered entries kept for the status endpoint; pending and dead ones are always kept
+const MAX_DELIVERED_KEPT = 500;
+// Deliveries sent per run of the worker
+const DELIVERY_BATCH = 20;
+
+// A toggle is an update changing isActive; subscriptions to "updated" receive them too
+export type WebhookEventType = "created" | "updated" | "deleted" | "toggled";
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = ["created", "updated", "deleted", "toggled"];
+
+// A registered webhook. The secret signs the payloads and is only shown on creation.
+export interface WebhookSubscription {
+    id: string;
+    url: string;
+    events: WebhookEventType[];
+    description?: string;
+    secret: string;
+    createdAt: string;
+    createdBy: string;
+}
+
+export type WebhookSubscriptionSummary = Omit<WebhookSubscription, "secret">;
+
+// Payload sent to the subscribers
+export interface WebhookEvent {
+    id: string;
+    type: WebhookEventType;
+    publisherId?: string;
+    filename?: string;
+    // Top-level config fields the change added, removed or modified
+    changedFields: string[];
+    isActive: boolean | null;
+    actor: string;
+    occurredAt: string;
+}
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "dead";
+
+export const WEBHOOK_DELIVERY_STATUSES: WebhookDeliveryStatus[] = ["pending", "delivered", "dead"];
+
+export interface WebhookDelivery {
+    id: string;
+    subscriptionId: string;
+    url: string;
+    event: WebhookEvent;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    nextAttemptAt: string;
+    // Set while a worker is sending it, so other instances leave it alone
+    claimedUntil?: string;
+    lastAttemptAt?: string;
+    // HTTP status or network error of the last attempt
+    lastStatus?: number;
+    lastError?: string;
+    deliveredAt?: string;
+    createdAt: string;
+}
+
+interface WebhookRequest {
+    url: string;
+    events: WebhookEventType[];
+    description?: string;
+}
+
+async function readStore<T>(file: string, field: string): Promise<T[]> {
+    let data: string;
+    try {
+        data = await fs.readFile(path.join(DATA_DIR, file), "utf-8");
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (errorMessage.includes("ENOENT")) {
+            return [];
+        }
+        throw error;
+    }
+
+    let store;
+    try {
+        store = JSON.parse(data);
+    } catch {
+        throw new Error(`Failed to read ${file} - file may be corrupted`);
+    }
+    if (!store || !Array.isArray(store[field])) {
+        throw new Error(`Invalid ${file} structure`);
+    }
+    return store[field];
+}
+
+// Read-modify-write a store under its lock
+async function updateStore<T, R>(file: string, field: string, mutate: (entries: T[]) => { entries: T[]; result: R }): Promise<R> {
+    return withFileLock(file, async () => {
+        const { entries, result } = mutate(await readStore<T>(file, field));
+        await writeFileAtomic(path.join(DATA_DIR, file), JSON.stringify({ [field]: entries }, null, 2));
+        return result;
+    });
+}
+
+export function readWebhooks(): Promise<WebhookSubscription[]> {
+    return readStore<WebhookSubscription>(WEBHOOKS_FILE, "webhooks");
+}
+
+export function readWebhookDeliveries(): Promise<WebhookDelivery[]> {
+    return readStore<WebhookDelivery>(WEBHOOK_DELIVERIES_FILE, "deliveries");
+}
+
+export function summarizeWebhook({ secret: _secret, ...summary }: WebhookSubscription): WebhookSubscriptionSummary {
+    return summary;
+}
+
+// Check the body of POST /api/admin/webhooks. Returns the request, or an error message.
+export function parseWebhookRequest(body: unknown): WebhookRequest | string {
+    const raw = body && typeof body === "object" && !Array.isArray(body) ? body as Record<string, unknown> : {};
+
+    let url: URL;
+    try {
+        url = new URL(String(raw.url));
+    } catch {
+        return "url must be an absolute http(s) URL";
+    }
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+        return "url must be an absolute http(s) URL";
+    }
+
+    const events = raw.events ?? WEBHOOK_EVENT_TYPES;
+    if (!Array.isArray(events) || events.length === 0 || !events.every(event => WEBHOOK_EVENT_TYPES.includes(event))) {
+        return `events must be a non-empty array of ${WEBHOOK_EVENT_TYPES.join(", ")}`;
+    }
+    if (raw.description !== undefined && typeof raw.description !== "string") {
+        return "description must be a string";
+    }
+
+    return { url: url.toString(), events: [...new Set(events)], ...(raw.description !== undefined && { description: raw.description as string }) };
+}
+
+export async function createWebhook(request: WebhookRequest, actor: string): Promise<WebhookSubscription> {
+    const subscription: WebhookSubscription = {
+        id: crypto.randomBytes(6).toString("hex"),
+        ...request,
+        secret: `whsec_${crypto.randomBytes(24).toString("base64url")}`,
+        createdAt: new Date().toISOString(),
+        createdBy: actor
+    };
+    return updateStore<WebhookSubscription, WebhookSubscription>(WEBHOOKS_FILE, "webhooks", webhooks => ({
+        entries: [...webhooks, subscription],
+        result: subscription
+    }));
+}
+
+// Remove a subscription. Its pending deliveries are dropped when their turn comes.
+export async function deleteWebhook(id: string): Promise<WebhookSubscription> {
+    return updateStore<WebhookSubscription, WebhookSubscription>(WEBHOOKS_FILE, "webhooks", webhooks => {
+        const deleted = webhooks.find(webhook => webhook.id === id);
+        if (!deleted) {
+            throw new Error("Webhook not found");
+        }
+        return { entries: webhooks.filter(webhook => webhook !== deleted), result: deleted };
+    });
+}
+
+function parseContent(content: string | null | undefined): Record<string, unknown> | null {
+    if (typeof content !== "string") {
+        return null;
+    }
+    try {
+        const parsed = JSON.parse(content);
+        return parsed && typeof parsed === "object" ? parsed : null;
+    } catch {
+        return null;
+    }
+}
+
+function changedFields(before: Record<string, unknown> | null, after: Record<string, unknown> | null): string[] {
+    const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+    return [...fields]
+        .filter(field => JSON.stringify(before?.[field]) !== JSON.stringify(after?.[field]))
+        .sort();
+}
+
+// Webhook event of a change recorded by a write handler (audit action and change), or null
+// for actions the webhooks do not report and updates that left the config as it was
+export function webhookEventFor(action: string, change: AuditChange): WebhookEvent | null {
+    const before = parseContent(change.before);
+    const after = parseContent(change.after);
+    const fields = changedFields(before, after);
+
+    let type: WebhookEventType;
+    switch (action) {
+        case "CREATE_PUBLISHER":
+            type = "created";
+            break;
+        case "DELETE_PUBLISHER":
+            type = "deleted";
+            break;
+        case "UPDATE_PUBLISHER":
+        case "RESTORE_PUBLISHER":
+        case "RENAME_PUBLISHER":
+            if (fields.length === 0) {
+                return null;
+            }
+            type = fields.includes("isActive") ? "toggled" : "updated";
+            break;
+        default:
+            return null;
+    }
+
+    const current = after ?? before;
+    return {
+        id: crypto.randomUUID(),
+        type,
+        ...(change.publisherId !== undefined && { publisherId: change.publisherId }),
+        ...(change.filename !== undefined && { filename: change.filename }),
+        changedFields: fields,
+        isActive: typeof current?.isActive === "boolean" ? current.isActive : null,
+        actor: currentRequestContext()?.principal?.name || "system",
+        occurredAt: new Date().toISOString()
+    };
+}
+
+function subscribesTo(subscription: WebhookSubscription, type: WebhookEventType): boolean {
+    return subscription.events.includes(type) || (type === "toggled" && subscription.events.includes("updated"));
+}
+
+// Queue a change for every subscription to its event type. Failures are reported but do
+// not fail the request, whose change has already been committed.
+export async function enqueueWebhookEvent(action: string, change: AuditChange): Promise<void> {
+    try {
+        const event = webhookEventFor(action, change);
+        if (!event) {
+            return;
+        }
+        const subscriptions = (await readWebhooks()).filter(subscription => subscribesTo(subscription, event.type));
+        if (subscriptions.length === 0) {
+            return;
+        }
+
+        const now = new Date().toISOString();
+        await updateStore<WebhookDelivery, void>(WEBHOOK_DELIVERIES_FILE, "deliveries", deliveries => ({
+            entries: [...deliveries, ...subscriptions.map(subscription => ({
+                id: crypto.randomUUID(),
+                subscriptionId: subscription.id,
+                url: subscription.url,
+                event,
+                status: "pending" as const,
+                attempts: 0,
+                nextAttemptAt: now,
+                createdAt: now
+            }))],
+            result: undefined
+        }));
+    } catch (error) {
+        console.error("Failed to queue webhook event:", error instanceof Error ? error.message : error, { action, filename: change.filename });
+    }
+}
+
+// Signature header of a payload: HMAC-SHA256 of "<timestamp>.<body>" with the subscription
+// secret. Receivers should also reject old timestamps to prevent replays.
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+    return `sha256=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+// How long to wait before the next attempt after `attempts` failed ones
+export function retryDelay(attempts: number): number {
+    return Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+// Keep every pending and dead delivery, and the most recent delivered ones
+function prune(deliveries: WebhookDelivery[]): WebhookDelivery[] {
+    const delivered = deliveries.filter(delivery => delivery.status === "delivered");
+    const dropped = new Set(delivered.slice(0, Math.max(0, delivered.length - MAX_DELIVERED_KEPT)));
+    return deliveries.filter(delivery => !dropped.has(delivery));
+}
+
+async function send(delivery: WebhookDelivery, secret: string): Promise<{ status?: number; error?: string }> {
+    const body = JSON.stringify(delivery.event);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    try {
+        const response = await fetch(delivery.url, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                "User-Agent": "publisher-config-webhooks",
+                "X-Webhook-Id": delivery.id,
+                "X-Webhook-Event": delivery.event.type,
+                "X-Webhook-Timestamp": timestamp,
+                "X-Webhook-Signature": signWebhookPayload(secret, timestamp, body)
+            },
+            body,
+            redirect: "manual",
+            signal: AbortSignal.timeout(TIMEOUT_MS)
+        });
+        return response.ok ? { status: response.status } : { status: response.status, error: `HTTP ${response.status}` };
+    } catch (error) {
+        return { error: error instanceof Error ? error.message : "Unknown error" };
+    }
+}
+
+// Send the deliveries that are due. Deliveries are claimed under the queue lock and sent
+// without it, so slow receivers do not hold up writes. Returns how many were attempted.
+export async function processWebhookDeliveries(): Promise<number> {
+    const subscriptions = new Map((await readWebhooks()).map(subscription => [subscription.id, subscription]));
+    const now = Date.now();
+
+    const claimed = await updateStore<WebhookDelivery, WebhookDelivery[]>(WEBHOOK_DELIVERIES_FILE, "deliveries", deliveries => {
+        const due = deliveries.filter(delivery =>
+            delivery.status === "pending" &&
+            Date.parse(delivery.nextAttemptAt) <= now &&
+            !(delivery.claimedUntil && Date.parse(delivery.claimedUntil) > now)
+        ).slice(0, DELIVERY_BATCH);
+        // Deliveries of deleted subscriptions are dropped
+        const orphaned = new Set(due.filter(delivery => !subscriptions.has(delivery.subscriptionId)));
+        const claimedUntil = new Date(now + 2 * TIMEOUT_MS).toISOString();
+        due.forEach(delivery => { delivery.claimedUntil = claimedUntil; });
+        return { entries: deliveries.filter(delivery => !orphaned.has(delivery)), result: due.filter(delivery => !orphaned.has(delivery)) };
+    });
+    if (claimed.length === 0) {
+        return 0;
+    }
+
+    const outcomes = new Map<string, { status?: number; error?: string; at: string }>();
+    for (const delivery of claimed) {
+        const outcome = await send(delivery, subscriptions.get(delivery.subscriptionId)!.secret);
+        outcomes.set(delivery.id, { ...outcome, at: new Date().toISOString() });
+    }
+
+    await updateStore<WebhookDelivery, void>(WEBHOOK_DELIVERIES_FILE, "deliveries", deliveries => {
+        for (const delivery of deliveries) {
+            const outcome = outcomes.get(delivery.id);
+            if (!outcome) {
+                continue;
+            }
+            delete delivery.claimedUntil;
+            delivery.attempts += 1;
+            delivery.lastAttemptAt = outcome.at;
+            delivery.lastStatus = outcome.status;
+            delivery.lastError = outcome.error;
+            if (!outcome.error) {
+                delivery.status = "delivered";
+                delivery.deliveredAt = outcome.at;
+            } else if (delivery.attempts >= MAX_ATTEMPTS) {
+                delivery.status = "dead";
+            } else {
+                delivery.nextAttemptAt = new Date(Date.parse(outcome.at) + retryDelay(delivery.attempts)).toISOString();
+            }
+        }
+        return { entries: prune(deliveries), result: undefined };
+    });
+    return claimed.length;
+}
+
+// Queue a dead delivery again, with a fresh set of attempts
+export async function retryWebhookDelivery(id: string): Promise<WebhookDelivery> {
+    return updateStore<WebhookDelivery, WebhookDelivery>(WEBHOOK_DELIVERIES_FILE, "deliveries", deliveries => {
+        const delivery = deliveries.find(entry => entry.id === id);
+        if (!delivery) {
+            throw new Error("Delivery not found");
+        }
+        if (delivery.status !== "dead") {
+            throw new Error("Only dead deliveries can be retried");
+        }
+        delivery.status = "pending";
+        delivery.attempts = 0;
+        delivery.nextAttemptAt = new Date().toISOString();
+        return { entries: deliveries, result: delivery };
+    });
+}
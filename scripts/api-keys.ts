@@ -0,0 +1,83 @@
+// Manage the named API keys in data/api-keys.json
+// Usage: npm run api-keys -- list
+//        npm run api-keys -- create <name> <viewer|editor|admin> [--publisher <id>] [--tag <tag>] [--file <pattern>]
+//        npm run api-keys -- rotate <id>
+//        npm run api-keys -- revoke <id>
+// Created and rotated keys are printed once; only their hash is stored. The repeatable
+// --publisher, --tag and --file options limit a key to the matching publishers.
+import { isRole, parsePublisherScope, type PublisherScope } from "../lib/auth.js";
+import { createApiKey, readApiKeys, revokeApiKey, rotateApiKey, summarizeApiKey } from "../lib/api-keys.js";
+
+const [command, ...args] = process.argv.slice(2);
+
+const SCOPE_OPTIONS: Record<string, keyof PublisherScope> = {
+    "--publisher": "publisherIds",
+    "--tag": "tags",
+    "--file": "files"
+};
+
+// Split "create" arguments into positional ones and the scope options
+function parseCreateArgs(argv: string[]): { positional: string[]; scope?: PublisherScope } {
+    const positional: string[] = [];
+    const lists: Record<string, string[]> = {};
+    for (let i = 0; i < argv.length; i++) {
+        const field = SCOPE_OPTIONS[argv[i]];
+        if (!field) {
+            positional.push(argv[i]);
+            continue;
+        }
+        if (argv[i + 1] === undefined) {
+            throw new Error(`${argv[i]} needs a value`);
+        }
+        (lists[field] ||= []).push(argv[++i]);
+    }
+    if (Object.keys(lists).length === 0) {
+        return { positional };
+    }
+    const scope = parsePublisherScope(lists);
+    if (typeof scope === "string") {
+        throw new Error(scope);
+    }
+    return { positional, scope };
+}
+
+try {
+    switch (command) {
+        case "list": {
+            const keys = await readApiKeys();
+            if (keys.length === 0) {
+                console.log("No API keys yet, the shared API_KEY is accepted as an admin key");
+            }
+            for (const key of keys.map(summarizeApiKey)) {
+                const status = key.revokedAt ? `revoked ${key.revokedAt}` : `created ${key.rotatedAt || key.createdAt}`;
+                const scope = key.scope ? `  scope ${JSON.stringify(key.scope)}` : "";
+                console.log(`  ${key.id}  ${key.prefix}…  ${key.role.padEnd(6)}  ${key.name}  (${status})${scope}`);
+            }
+            break;
+        }
+        case "create": {
+            const { positional: [name, role], scope } = parseCreateArgs(args);
+            if (!name || !isRole(role)) {
+                throw new Error("Usage: create <name> <viewer|editor|admin> [--publisher <id>] [--tag <tag>] [--file <pattern>]");
+            }
+            const issued = await createApiKey(name, role, scope);
+            console.log(`Created ${role} key ${issued.record.id} for ${name}: ${issued.key}`);
+            break;
+        }
+        case "rotate": {
+            const issued = await rotateApiKey(args[0]);
+            console.log(`New key for ${issued.record.name} (${issued.record.id}): ${issued.key}`);
+            break;
+        }
+        case "revoke": {
+            const revoked = await revokeApiKey(args[0]);
+            console.log(`Revoked key ${revoked.id} of ${revoked.name}`);
+            break;
+        }
+        default:
+            throw new Error("Usage: npm run api-keys -- list | create <name> <role> | rotate <id> | revoke <id>");
+    }
+} catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+}
@@ -0,0 +1,32 @@
+// Report inconsistencies between data/publishers.json and the config files
+// Usage: npm run check-consistency [-- --fix]
+// Exits with code 1 while unfixed issues remain, so it can run in CI.
+import { checkConsistency } from "../lib/consistency.js";
+
+const fix = process.argv.includes("--fix");
+
+try {
+    const report = await checkConsistency({ fix });
+
+    if (report.consistent) {
+        console.log("publishers.json is consistent with data/");
+    } else {
+        for (const issue of report.issues) {
+            const status = issue.fixed ? "fixed" : issue.fixable ? "fixable" : "manual";
+            console.log(`  [${status}] ${issue.type}: ${issue.message}`);
+        }
+        if (report.backup) {
+            console.log(`Previous publishers.json saved as data/${report.backup}`);
+        }
+        if (!fix && report.issues.some(issue => issue.fixable)) {
+            console.log("Run with --fix to repair the fixable issues");
+        }
+    }
+
+    if (report.issues.some(issue => !issue.fixed)) {
+        process.exitCode = 1;
+    }
+} catch (error) {
+    console.error("Consistency check failed:", error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+}
@@ -0,0 +1,77 @@
+// Copy the JSON data (configs, publishers.json entries and revision history) into SQLite
+// Usage: npm run migrate-to-sqlite [-- --db <path>] [-- --force]
+// vocabularies.json is shared by both backends and stays where it is.
+import { checkConsistency } from "../lib/consistency.js";
+import { listHistoryFiles } from "../lib/history.js";
+import { toListItem } from "../lib/publishers-list.js";
+import { createJsonRepository } from "../lib/json-repository.js";
+import { createSqliteRepository } from "../lib/sqlite-repository.js";
+import { DEFAULT_SQLITE_PATH } from "../lib/repository.js";
+import type { PublisherRevision } from "../types/interfaces.js";
+
+const args = process.argv.slice(2);
+const dbArg = args.indexOf("--db");
+const databasePath = dbArg !== -1 && args[dbArg + 1] ? args[dbArg + 1] : process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH;
+const force = args.includes("--force");
+
+const source = createJsonRepository();
+
+async function readHistory(filename: string): Promise<PublisherRevision[]> {
+    const revisions: PublisherRevision[] = [];
+    for (const summary of await source.listRevisions(filename)) {
+        const revision = await source.getRevision(filename, summary.revision);
+        if (revision) {
+            revisions.push(revision);
+        }
+    }
+    return revisions;
+}
+
+try {
+    // Migrating a drifted index would carry the drift over, so it has to be fixed first
+    const consistency = await checkConsistency();
+    if (!consistency.consistent) {
+        consistency.issues.forEach(issue => console.log(`  ${issue.type}: ${issue.message}`));
+        throw new Error("publishers.json does not match data/, run npm run check-consistency -- --fix first");
+    }
+
+    const target = createSqliteRepository(databasePath);
+    try {
+        if (!force && (await target.list()).length > 0) {
+            throw new Error(`${databasePath} already contains publishers, use --force to overwrite them`);
+        }
+
+        const publishers = await source.list();
+        let revisionCount = 0;
+
+        for (const item of publishers) {
+            const stored = await source.get(item.file);
+            const revisions = await readHistory(item.file);
+            // Entries written before the summary fields existed get them from the config.
+            // The content is copied verbatim so ETags held by clients stay valid.
+            const entry = stored ? { ...toListItem(item.file, stored.config, item.updatedAt), id: item.id } : item;
+            target.importPublisher(entry, stored ? stored.content : null, revisions);
+            revisionCount += revisions.length;
+            console.log(`  migrated ${item.file} (${revisions.length} revisions)`);
+        }
+
+        // History of deleted configs, so they can still be restored
+        const listed = new Set(publishers.map(item => item.file));
+        for (const filename of await listHistoryFiles()) {
+            if (!listed.has(filename)) {
+                const revisions = await readHistory(filename);
+                target.importPublisher(null, null, revisions);
+                revisionCount += revisions.length;
+                console.log(`  migrated history of deleted ${filename} (${revisions.length} revisions)`);
+            }
+        }
+
+        console.log(`Migrated ${publishers.length} publishers and ${revisionCount} revisions to ${databasePath}`);
+        console.log("Start the server with STORAGE_BACKEND=sqlite to use it");
+    } finally {
+        target.close();
+    }
+} catch (error) {
+    console.error("Migration failed:", error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+}
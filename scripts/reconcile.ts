@@ -0,0 +1,19 @@
+// Rebuild data/publishers.json from the config files in data/
+// Usage: npm run reconcile [-- --dry-run]
+import { reconcilePublishersList } from "../lib/reconcile.js";
+
+const dryRun = process.argv.includes("--dry-run");
+
+try {
+    const report = await reconcilePublishersList({ dryRun });
+
+    console.log(`${dryRun ? "[dry run] " : ""}publishers.json: ${report.publishers.length} publishers`);
+    report.added.forEach(file => console.log(`  added    ${file}`));
+    report.updated.forEach(file => console.log(`  updated  ${file}`));
+    report.removed.forEach(file => console.log(`  removed  ${file}`));
+    report.skipped.forEach(({ file, reason }) => console.log(`  skipped  ${file}: ${reason}`));
+    report.duplicateIds.forEach(({ id, files }) => console.log(`  duplicate publisherId "${id}": ${files.join(", ")}`));
+} catch (error) {
+    console.error("Reconcile failed:", error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+}
@@ -1,20 +1,116 @@
 import express from "express";
 import cors from "cors";
-import path from "path";
-import type { PublisherListItem, PublisherConfig } from "./types/interfaces.js";
-import { fileURLToPath } from "url";
-import fs from "fs/promises";
-import { appendFile, stat } from "fs/promises";
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+import crypto from "crypto";
+import type { ConfigDiff, PublisherListItem, PublisherConfig } from "./types/interfaces.js";
+import { validateFilename } from "./lib/paths.js";
+import { logAction } from "./lib/logger.js";
+import { parseAuditQuery, queryAudit, recordAudit, type AuditChange } from "./lib/audit.js";
+import { currentRequestContext, runWithRequestContext, setRequestPrincipal } from "./lib/request-context.js";
+import {
+    hasRole,
+    inScope,
+    isRole,
+    parsePublisherScope,
+    requiredRole,
+    requiresGlobalScope,
+    type Principal
+} from "./lib/auth.js";
+import { createJwtAuthenticator, jwtOptionsFromEnv } from "./lib/jwt.js";
+import { createApiKey, findApiKey, readApiKeys, revokeApiKey, rotateApiKey, summarizeApiKey } from "./lib/api-keys.js";
+import { cleanupStaleLocks, withFileLock } from "./lib/locks.js";
+import { toListItem } from "./lib/publishers-list.js";
+import { MAX_BULK_PUBLISHERS, applyBulkOperations, parseBulkRequest, selectsPublisher } from "./lib/bulk.js";
+import { applyJsonPatch, applyMergePatch, type PatchFormat } from "./lib/patch.js";
+import {
+    BUNDLE_VERSION,
+    IMPORT_MODES,
+    bundleLine,
+    csvHeader,
+    csvRows,
+    isImportMode,
+    parseImportBundle,
+    type ImportMode
+} from "./lib/bundle.js";
+import { reconcilePublishersList } from "./lib/reconcile.js";
+import { addRedirect, findRedirect } from "./lib/redirects.js";
+import { eventsSince, formatEvent, publishEvent, subscribeEvents, type PublisherEvent } from "./lib/events.js";
+import { createRuntimeCache, negotiateEncoding, notModified } from "./lib/runtime.js";
+import {
+    WEBHOOK_DELIVERY_STATUSES,
+    createWebhook,
+    deleteWebhook,
+    enqueueWebhookEvent,
+    parseWebhookRequest,
+    processWebhookDeliveries,
+    readWebhookDeliveries,
+    readWebhooks,
+    retryWebhookDelivery,
+    summarizeWebhook,
+    type WebhookDeliveryStatus
+} from "./lib/webhooks.js";
+import {
+    approveDraft,
+    discardDraft,
+    draftEtag,
+    listDraftFiles,
+    listDrafts,
+    moveDraft,
+    publishBlocker,
+    publishDraft,
+    publishRequiresApproval,
+    readDraft,
+    saveDraft,
+    type Draft
+} from "./lib/drafts.js";
+import { checkConsistency } from "./lib/consistency.js";
+import { createPublisherRepository } from "./lib/repository-factory.js";
+import { changesPublisherId, type BatchUpdate, type SaveResult } from "./lib/repository.js";
+import { diffPublisherConfigs } from "./lib/diff.js";
+import { computeEtag } from "./lib/etag.js";
+import { publisherConfigSchema, validateSchema, type SchemaError } from "./lib/schema.js";
+import { lintPublisherCss } from "./lib/css-lint.js";
+import {
+    VOCABULARIES_FILE,
+    VOCABULARY_FIELDS,
+    checkVocabularies,
+    isVocabularyKind,
+    readVocabularies,
+    renameVocabularyValue,
+    vocabulariesChange,
+    writeVocabularies,
+    type VocabularyKind
+} from "./lib/vocabularies.js";
+import {
+    ensureIndexLoaded,
+    parsePublisherQuery,
+    queryPublisherIndex,
+    removeIndexedPublisher,
+    resetPublisherIndex,
+    summarizePublisher,
+    upsertIndexedPublisher,
+    type IndexedPublisher
+} from "./lib/publisher-index.js";
 
 export const app = express();
 const PORT = process.env.PORT || 3001;
 
 const FRONTEND_URL = process.env.FRONTEND_URL;
+// Shared key of the single-key setup. Accepted as an admin key until the first named
+// key is created in data/api-keys.json (npm run api-keys or /api/admin/keys).
 const API_KEY = process.env.API_KEY || "your-internal-api-key";
 
+// Bearer tokens from the company SSO, verified against JWT_JWKS_FILE or JWT_JWKS_URL.
+// Disabled (only API keys are accepted) when neither is set.
+const jwtOptions = jwtOptionsFromEnv();
+const jwtAuthenticator = jwtOptions ? createJwtAuthenticator(jwtOptions) : null;
+
+// Where configs, list entries and revisions are stored (STORAGE_BACKEND=json|sqlite)
+const repository = createPublisherRepository();
+
+// Public runtime configs for the on-site widget (see serveRuntimeConfig). Registered ahead of
+// the admin CORS policy, authentication and rate limiting: any site may read them.
+app.get("/runtime/:publisherId", cors({ origin: "*", exposedHeaders: ["ETag"] }), serveRuntimeConfig);
+
 // Improved CORS configuration
 const allowedOrigins = process.env.ALLOWED_ORIGINS
     ? process.env.ALLOWED_ORIGINS.split(',').map(o => o.trim()).filter(o => o !== 'null')
@@ -37,13 +133,24 @@ app.use(cors({
         }
     },
     credentials: true,
+    // Let the frontend read ETags for optimistic concurrency and request IDs for support
+    exposedHeaders: ["ETag", "X-Request-Id"],
     optionsSuccessStatus: 200
 }));
 
-// Parse JSON bodies with size limit
-app.use(express.json({ limit: "2mb" }));
+// Parse JSON bodies with size limit, including the JSON Patch and merge patch bodies of PATCH
+app.use(express.json({ limit: "2mb", type: ["application/json", "application/json-patch+json", "application/merge-patch+json"] }));
 app.use(express.urlencoded({ extended: true, limit: "2mb" }));
 
+// Request IDs: taken from X-Request-Id when the client (or a proxy) sends a sane one,
+// echoed in the response and recorded in app.log and the audit log
+app.use((req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const incoming = req.headers["x-request-id"];
+    const requestId = typeof incoming === "string" && /^[\w.:-]{1,100}$/.test(incoming) ? incoming : crypto.randomUUID();
+    res.set("X-Request-Id", requestId);
+    runWithRequestContext({ requestId }, next);
+});
+
 // Rate limiting (simple in-memory implementation)
 const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
 const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
@@ -91,17 +198,92 @@ setInterval(() => {
 // Apply rate limiting to API routes
 app.use("/api/", rateLimitMiddleware);
 
-// Simple API key authentication middleware
-function authenticateApiKey(req: express.Request, res: express.Response, next: express.NextFunction) {
+// Bearer token authentication: "Authorization: Bearer <JWT>" when JWT_JWKS_* is configured.
+// The token's claims give the name, role and publisher scope of the caller.
+async function authenticateBearer(token: string, req: express.Request, res: express.Response): Promise<Principal | null> {
+    if (!jwtAuthenticator) {
+        res.status(401).json({ error: "Bearer tokens are not enabled" });
+        return null;
+    }
+    try {
+        return await jwtAuthenticator.authenticate(token);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (errorMessage.startsWith("Invalid token")) {
+            res.set("WWW-Authenticate", "Bearer error=\"invalid_token\"");
+            res.status(401).json({ error: errorMessage });
+        } else if (errorMessage === "Token grants no role") {
+            res.status(403).json({ error: errorMessage });
+        } else {
+            console.error("Error verifying bearer token:", errorMessage);
+            await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+            res.status(503).json({ error: "Token verification is unavailable, try again later" });
+        }
+        return null;
+    }
+}
+
+// Authentication middleware: a bearer token, or an API key - named keys from
+// data/api-keys.json, or the shared API_KEY while no named key exists. The caller's
+// identity is attached to the request (res.locals.principal) and to every log entry
+// written while handling it.
+async function authenticateApiKey(req: express.Request, res: express.Response, next: express.NextFunction) {
+    const authorization = req.headers.authorization;
+    if (authorization && /^Bearer /i.test(authorization)) {
+        const principal = await authenticateBearer(authorization.slice("Bearer ".length).trim(), req, res);
+        if (principal) {
+            res.locals.principal = principal;
+            setRequestPrincipal(principal);
+            next();
+        }
+        return;
+    }
+
     // Use header first, query parameter only in development
     const apiKey = req.headers["x-api-key"] as string ||
         (process.env.NODE_ENV === "development" ? (req.query.apiKey as string) : undefined);
 
-    if (apiKey === API_KEY) {
-        next();
-    } else {
-        res.status(401).json({ error: "Unauthorized" });
+    if (!apiKey) {
+        return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    let principal: Principal | null = null;
+    try {
+        const keys = await readApiKeys();
+        const record = findApiKey(keys, apiKey);
+        if (record) {
+            principal = { name: record.name, role: record.role, keyId: record.id, ...(record.scope && { scope: record.scope }) };
+        } else if (keys.length === 0 && apiKey === API_KEY) {
+            // The shared key cannot tell users apart, so it names itself after x-actor
+            principal = { name: headerActor(req), role: "admin" };
+        }
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        console.error("Error reading API keys:", error);
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        return res.status(500).json({ error: "Failed to authenticate request" });
+    }
+
+    if (!principal) {
+        return res.status(401).json({ error: "Unauthorized" });
+    }
+    res.locals.principal = principal;
+    setRequestPrincipal(principal);
+    next();
+}
+
+// Role-based authorization: viewers read, editors also write, admins also delete and
+// use the admin endpoints
+function authorizeRole(req: express.Request, res: express.Response, next: express.NextFunction) {
+    const principal: Principal = res.locals.principal;
+    const role = requiredRole(req.method, req.path, { publishRequiresApproval: publishRequiresApproval() });
+    if (!hasRole(principal, role)) {
+        return res.status(403).json({ error: "Forbidden", requiredRole: role, role: principal.role });
+    }
+    if (principal.scope && requiresGlobalScope(req.method, req.path)) {
+        return res.status(403).json({ error: "Forbidden", reason: "Not available to publisher-scoped keys" });
     }
+    next();
 }
 
 // Content-Type validation middleware
@@ -112,287 +294,627 @@ app.use((req: express.Request, res: express.Response, next: express.NextFunction
             return res.status(400).json({ error: "Content-Type must be application/json" });
         }
     }
+    if (req.method === "PATCH" && !req.is(["application/json", "application/json-patch+json", "application/merge-patch+json"])) {
+        return res.status(415).json({ error: "Content-Type must be application/json-patch+json or application/merge-patch+json" });
+    }
     next();
 });
 
-// Apply authentication to API routes (except health check)
-app.use("/api/", authenticateApiKey);
+// Apply authentication and authorization to API routes (except health check)
+app.use("/api/", authenticateApiKey, authorizeRole);
 
-// Path traversal protection - validate filename
-function validateFilename(filename: string): boolean {
-    // Allow only safe filenames: alphanumeric, hyphens, underscores, and .json extension
-    if (!/^[a-zA-Z0-9_-]+\.json$/.test(filename)) {
-        return false;
+// The config a publisher-scoped principal is checked against: the stored one, or the last
+// revision of a deleted config. Null for a file that never existed.
+async function scopedConfig(filename: string): Promise<PublisherConfig | null> {
+    const stored = await repository.get(filename);
+    if (stored) {
+        return stored.config;
+    }
+    const [latest] = await repository.listRevisions(filename);
+    return latest ? (await repository.getRevision(filename, latest.revision))?.config ?? null : null;
+}
+
+// Publisher-scoped permissions for every /api/publisher/:filename route: the config must
+// be in the caller's scope, and so must the config a PUT/POST saves, a restore brings back
+// or a publish makes live
+async function authorizePublisher(req: express.Request, res: express.Response, next: express.NextFunction) {
+    const principal: Principal = res.locals.principal;
+    const { filename } = req.params;
+    if (!principal.scope || !validateFilename(filename)) {
+        // Invalid filenames are answered by the route handlers
+        return next();
     }
 
-    // Check that resolved path is inside data directory
-    const resolvedPath = path.resolve(__dirname, "./data", filename);
-    const dataDir = path.resolve(__dirname, "./data");
+    try {
+        const configs: unknown[] = [await scopedConfig(filename)];
+        if (((req.method === "PUT" || req.method === "POST") && req.path === "/") || (req.method === "PUT" && req.path === "/draft")) {
+            configs.push(req.body);
+        }
+        if (req.method === "POST" && req.path === "/publish") {
+            configs.push((await readDraft(filename))?.config);
+        }
+        const restore = req.method === "POST" ? req.path.match(/^\/revisions\/(\d+)\/restore$/) : null;
+        if (restore) {
+            configs.push((await repository.getRevision(filename, Number(restore[1])))?.config);
+        }
 
-    return resolvedPath.startsWith(dataDir);
+        const outOfScope = configs.some(config =>
+            config && typeof config === "object" &&
+            !inScope(principal, { file: filename, publisherId: (config as PublisherConfig).publisherId, tags: (config as PublisherConfig).tags })
+        );
+        if (outOfScope) {
+            return res.status(403).json({ error: "Forbidden", reason: `No access to publisher ${filename}` });
+        }
+        next();
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        console.error("Error checking publisher access:", error);
+        await logAction("ERROR", { endpoint: req.path, method: req.method, filename, error: errorMessage });
+        res.status(500).json({ error: "Failed to check publisher access" });
+    }
 }
 
-// Input validation for publisher config
-function validatePublisherConfig(data: any): { valid: boolean; error?: string } {
-    if (!data || typeof data !== 'object') {
-        return { valid: false, error: "Invalid data format" };
+// Old filenames of renamed configs answer with a 308 redirect to the new name during the
+// grace period, so bookmarks and scripts keep working. Creating a config under the old
+// name is not redirected.
+async function redirectRenamedPublisher(req: express.Request, res: express.Response, next: express.NextFunction) {
+    const { filename } = req.params;
+    if (!validateFilename(filename) || (req.method === "POST" && req.path === "/")) {
+        return next();
+    }
+
+    try {
+        const redirect = await findRedirect(filename);
+        if (!redirect || await repository.exists(filename)) {
+            return next();
+        }
+        // Publisher-scoped callers do not learn the new name of a publisher outside their scope
+        const principal: Principal = res.locals.principal;
+        const target = principal.scope ? await scopedConfig(redirect.to) : null;
+        if (target && !inScope(principal, { file: redirect.to, publisherId: target.publisherId, tags: target.tags })) {
+            return next();
+        }
+
+        const queryIndex = req.originalUrl.indexOf("?");
+        const query = queryIndex === -1 ? "" : req.originalUrl.slice(queryIndex);
+        res.set("Location", `/api/publisher/${redirect.to}${req.path === "/" ? "" : req.path}${query}`);
+        res.status(308).json({ error: "Publisher config was renamed", filename: redirect.to, expiresAt: redirect.expiresAt });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        console.error("Error resolving renamed publisher:", error);
+        await logAction("ERROR", { endpoint: req.path, method: req.method, filename, error: errorMessage });
+        res.status(500).json({ error: "Failed to resolve publisher config" });
     }
+}
+
+app.use("/api/publisher/:filename", redirectRenamedPublisher, authorizePublisher);
+
+// Free-form actor name sent along with the shared API key
+function headerActor(req: express.Request): string {
+    const actor = req.headers["x-actor"];
+    return typeof actor === "string" && actor.trim() !== "" ? actor.trim().slice(0, 100) : "api-key";
+}
 
-    if (!data.publisherId || typeof data.publisherId !== 'string' || data.publisherId.trim() === '') {
-        return { valid: false, error: "publisherId is required and must be a non-empty string" };
+// Identify who made a change (recorded in config revisions)
+function getActor(_req: express.Request, res: express.Response): string {
+    return (res.locals.principal as Principal).name;
+}
+
+// Input validation for publisher config - reports every schema violation and CSS lint error
+function validatePublisherConfig(data: any): { valid: boolean; error?: string; errors: SchemaError[] } {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        const errors = [{ path: "$", message: "Invalid data format" }];
+        return { valid: false, error: errors[0].message, errors };
     }
-    if (data.publisherId.length > 100) {
-        return { valid: false, error: "publisherId must be 100 characters or less" };
+
+    const errors: SchemaError[] = [...validateSchema(data, publisherConfigSchema), ...lintPublisherCss(data)];
+    if (errors.length > 0) {
+        return { valid: false, error: errors[0].message, errors };
     }
 
-    if (!data.aliasName || typeof data.aliasName !== 'string' || data.aliasName.trim() === '') {
-        return { valid: false, error: "aliasName is required and must be a non-empty string" };
+    return { valid: true, errors: [] };
+}
+
+// Optimistic concurrency - writes based on a stale copy of the config are rejected by
+// the repository. Only enforced when the client sends If-Match.
+function ifMatchHeader(req: express.Request): string | undefined {
+    const ifMatch = req.headers["if-match"];
+    return typeof ifMatch === "string" ? ifMatch : undefined;
+}
+
+// Lock contention answers 423 and an unusable lock directory 503, so clients retry
+// instead of hanging. Returns true when the error was a lock error and has been answered.
+function sendLockError(res: express.Response, errorMessage: string): boolean {
+    if (errorMessage.startsWith("Lock timeout") || errorMessage === "database is locked") {
+        res.set("Retry-After", "1");
+        res.status(423).json({ error: "Publisher data is locked by another operation, try again later" });
+        return true;
     }
-    if (data.aliasName.length > 200) {
-        return { valid: false, error: "aliasName must be 200 characters or less" };
+    if (errorMessage.startsWith("Lock unavailable")) {
+        res.set("Retry-After", "5");
+        res.status(503).json({ error: "Locking is unavailable, try again later" });
+        return true;
     }
+    return false;
+}
+
+// A change of a publisher config: what the audit log records, plus the list entry it left
+// (none after a delete) and the filename a rename moved it from
+interface PublisherChange extends AuditChange {
+    item?: PublisherListItem;
+    previousFilename?: string;
+}
+
+// Record a change of a publisher config in the audit log, queue it for the webhooks and
+// send it to the open event streams
+async function recordPublisherChange(action: string, { item, previousFilename, ...change }: PublisherChange): Promise<void> {
+    runtimeCache.invalidate();
+    await recordAudit(action, change);
+    await enqueueWebhookEvent(action, change);
+    publishEvent({
+        type: action === "CREATE_PUBLISHER" ? "created" : action === "DELETE_PUBLISHER" ? "deleted" : "updated",
+        filename: change.filename!,
+        ...(previousFilename && { previousFilename }),
+        ...(change.publisherId !== undefined && { publisherId: change.publisherId }),
+        item: item ?? null,
+        etag: typeof change.after === "string" ? computeEtag(change.after) : null,
+        actor: currentRequestContext()?.principal?.name || "system"
+    });
+}
+
+// Periodic cleanup of lock files left behind by crashed processes (stale locks are also
+// taken over when a write runs into them)
+setInterval(() => {
+    cleanupStaleLocks()
+        .then(removed => removed.length > 0 ? logAction("REMOVE_STALE_LOCKS", { removed }) : undefined)
+        .catch(error => console.error("Failed to clean up stale locks:", error));
+}, 10 * 60 * 1000).unref(); // Every 10 minutes
+
+type WriteMode = "create" | "update";
+
+// Outcome of the checks a save runs before touching any file
+interface WriteCheck {
+    valid: boolean;
+    status: number; // HTTP status a real save answers with
+    error?: string;
+    errors: SchemaError[];
+}
 
-    if (typeof data.isActive !== 'boolean') {
-        return { valid: false, error: "isActive must be a boolean" };
+function failedCheck(status: number, errors: SchemaError[]): WriteCheck {
+    return { valid: false, status, error: errors[0].message, errors };
+}
+
+// All checks a create (POST) or update (PUT) runs before writing: filename rules,
+// schema, vocabularies and, for creates, existing file and duplicate publisherId
+async function checkPublisherWrite(filename: string, data: any, mode: WriteMode): Promise<WriteCheck> {
+    if (!validateFilename(filename)) {
+        return failedCheck(400, [{ path: "$", message: "Invalid filename" }]);
     }
 
-    if (!Array.isArray(data.pages)) {
-        return { valid: false, error: "pages must be an array" };
+    const validation = validatePublisherConfig(data);
+    const vocabularies = validation.errors.some(error => error.path === "$") ? null : await readVocabularies();
+    const errors = vocabularies ? [...validation.errors, ...checkVocabularies(data, vocabularies)] : validation.errors;
+    if (errors.length > 0) {
+        return failedCheck(400, errors);
     }
 
-    // Validate structure of pages array
-    for (let i = 0; i < data.pages.length; i++) {
-        const page = data.pages[i];
-        if (!page || typeof page !== 'object') {
-            return { valid: false, error: `pages[${i}] must be an object` };
-        }
-        if (!page.pageType || typeof page.pageType !== 'string') {
-            return { valid: false, error: `pages[${i}].pageType is required and must be a string` };
-        }
-        if (!page.selector || typeof page.selector !== 'string') {
-            return { valid: false, error: `pages[${i}].selector is required and must be a string` };
+    if (mode === "create") {
+        if (await repository.exists(filename)) {
+            return failedCheck(409, [{ path: "$", message: "Publisher config already exists" }]);
         }
-        if (!page.position || typeof page.position !== 'string') {
-            return { valid: false, error: `pages[${i}].position is required and must be a string` };
+
+        const existingPublisher = (await repository.list()).find(
+            (p: PublisherListItem) => p.id === data.publisherId
+        );
+        if (existingPublisher) {
+            return failedCheck(409, [{
+                path: "$.publisherId",
+                message: `Publisher with ID "${data.publisherId}" already exists in file "${existingPublisher.file}"`
+            }]);
         }
     }
 
-    return { valid: true };
+    return { valid: true, status: 200, errors: [] };
 }
 
-// Simple file-based logging with rotation
-async function logAction(action: string, details: Record<string, unknown>) {
-    try {
-        const logPath = path.join(__dirname, "app.log");
-        const MAX_LOG_SIZE = 10 * 1024 * 1024; // 10MB
+// The publishers.json entry of a saved config. Updates keep the ID of an existing entry,
+// unless they change the publisherId.
+function indexEntryFor(filename: string, data: PublisherConfig, existing?: PublisherListItem): PublisherListItem {
+    const item = toListItem(filename, data);
+    return existing ? { ...item, id: existing.id } : item;
+}
 
-        // Check file size and rotate if needed
-        try {
-            const stats = await stat(logPath);
-            if (stats.size > MAX_LOG_SIZE) {
-                // Rotate log file
-                const rotatedPath = `${logPath}.${Date.now()}`;
-                await fs.rename(logPath, rotatedPath).catch(() => {
-                    // Ignore rotation errors
-                });
-            }
-        } catch {
-            // File doesn't exist or stat failed, this is normal
-        }
+// The publishers.json entry a save would produce
+async function previewIndexEntry(filename: string, data: PublisherConfig, mode: WriteMode): Promise<PublisherListItem> {
+    if (mode === "create") {
+        return indexEntryFor(filename, data);
+    }
 
-        const logEntry = `${new Date().toISOString()} - ${action}: ${JSON.stringify(details)}\n`;
-        await appendFile(logPath, logEntry).catch(() => {
-            // Ignore logging errors to prevent app crashes
-        });
-    } catch {
-        // Ignore logging errors
+    const stored = await repository.get(filename);
+    if (changesPublisherId(stored ? stored.content : null, data)) {
+        return indexEntryFor(filename, data);
     }
+    const publishers = await repository.list();
+    return indexEntryFor(filename, data, publishers.find((p: PublisherListItem) => p.file === filename));
 }
 
-// Race condition protection - file locks
-const fileLocks = new Map<string, Promise<unknown>>();
+// Run the save checks without writing anything (dry run / validate endpoints)
+async function dryRunPublisherWrite(filename: string, data: any, mode: WriteMode) {
+    const check = await checkPublisherWrite(filename, data, mode);
+    return {
+        filename,
+        mode,
+        valid: check.valid,
+        errors: check.errors,
+        entry: check.valid ? await previewIndexEntry(filename, data, mode) : null
+    };
+}
 
-async function withFileLock<T>(filename: string, operation: () => Promise<T>): Promise<T> {
-    // Wait for any existing lock on this file
-    if (fileLocks.has(filename)) {
-        await fileLocks.get(filename);
-    }
+function isDryRun(req: express.Request): boolean {
+    return req.query.dryRun === "true" || req.query.dryRun === "1";
+}
 
-    // Create new lock
-    const lockPromise = (async () => {
-        try {
-            return await operation();
-        } catch (error) {
-            // Re-throw error after ensuring cleanup
-            throw error;
-        } finally {
-            // Guarantee lock removal even on error
-            fileLocks.delete(filename);
-        }
-    })();
+// API endpoint to get the identity and role of the caller (used by the frontend to hide actions)
+app.get("/api/me", (_req: express.Request, res: express.Response) => {
+    res.json(res.locals.principal);
+});
 
-    fileLocks.set(filename, lockPromise);
-    return lockPromise;
-}
+// Admin endpoints to manage named API keys. Keys are only returned on creation and rotation.
+app.get("/api/admin/keys", async (req: express.Request, res: express.Response) => {
+    try {
+        const keys = await readApiKeys();
+        res.json({ keys: keys.map(summarizeApiKey) });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        console.error("Error reading API keys:", error);
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        res.status(500).json({
+            error: "Failed to read API keys",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
 
-// Periodic cleanup of potentially stuck locks (safety measure)
-setInterval(() => {
-    // Check for locks older than 5 minutes (shouldn't happen, but safety measure)
-    const now = Date.now();
-    // Note: We can't easily track lock age without modifying the structure
-    // This is a safety measure - the finally block should handle cleanup
-}, 10 * 60 * 1000); // Every 10 minutes
+app.post("/api/admin/keys", async (req: express.Request, res: express.Response) => {
+    const { name, role, scope } = req.body || {};
+    if (typeof name !== "string" || name.trim() === "" || name.length > 100) {
+        return res.status(400).json({ error: "name must be a non-empty string of at most 100 characters" });
+    }
+    if (!isRole(role)) {
+        return res.status(400).json({ error: "role must be one of: viewer, editor, admin" });
+    }
+    // Optional: { publisherIds?, tags?, files? } limiting the key to some publishers
+    const publisherScope = scope === undefined ? undefined : parsePublisherScope(scope);
+    if (typeof publisherScope === "string") {
+        return res.status(400).json({ error: publisherScope });
+    }
 
-// Helper function to safely read and parse publishers.json
-async function readPublishersList(): Promise<{ publishers: PublisherListItem[] }> {
-    const publishersListPath = path.join(__dirname, "./data/publishers.json");
     try {
-        const publishersListData = await fs.readFile(publishersListPath, "utf-8");
-        let publishersList;
-        try {
-            publishersList = JSON.parse(publishersListData);
-        } catch (parseError) {
-            console.error("Failed to parse publishers.json:", parseError);
-            await logAction("ERROR", {
-                action: "PARSE_PUBLISHERS_JSON",
-                error: parseError instanceof Error ? parseError.message : "Unknown parse error"
-            });
-            throw new Error("Failed to read publishers list - file may be corrupted");
+        const issued = await createApiKey(name.trim(), role, publisherScope);
+        await logAction("CREATE_API_KEY", { id: issued.record.id, name: issued.record.name, role, scope: publisherScope });
+        await recordAudit("CREATE_API_KEY", { details: { id: issued.record.id, name: issued.record.name, role, scope: publisherScope } });
+        res.status(201).json({ key: issued.key, ...issued.record });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (sendLockError(res, errorMessage)) {
+            return;
         }
-
-        // Validate structure
-        if (!publishersList || !Array.isArray(publishersList.publishers)) {
-            console.error("Invalid publishers.json structure");
-            await logAction("ERROR", { action: "INVALID_PUBLISHERS_STRUCTURE" });
-            throw new Error("Invalid publishers.json structure");
+        if (errorMessage.startsWith("API key \"")) {
+            return res.status(409).json({ error: errorMessage });
         }
+        console.error("Error creating API key:", error);
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        res.status(500).json({
+            error: "Failed to create API key",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
 
-        return publishersList;
+app.post("/api/admin/keys/:id/rotate", async (req: express.Request, res: express.Response) => {
+    try {
+        const issued = await rotateApiKey(req.params.id);
+        await logAction("ROTATE_API_KEY", { id: issued.record.id, name: issued.record.name });
+        await recordAudit("ROTATE_API_KEY", { details: { id: issued.record.id, name: issued.record.name } });
+        res.json({ key: issued.key, ...issued.record });
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
-        if (errorMessage.includes("corrupted") || errorMessage.includes("Invalid")) {
-            throw error;
+        if (sendLockError(res, errorMessage)) {
+            return;
         }
-        // For other errors (like file not found), re-throw
-        throw error;
+        if (errorMessage === "API key not found") {
+            return res.status(404).json({ error: errorMessage });
+        }
+        console.error("Error rotating API key:", error);
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        res.status(500).json({
+            error: "Failed to rotate API key",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
     }
-}
+});
 
-// API endpoint to get publishers list
-app.get("/api/publishers", async (_req: express.Request, res: express.Response) => {
+app.delete("/api/admin/keys/:id", async (req: express.Request, res: express.Response) => {
     try {
-        const publishersList = await readPublishersList();
-        res.json(publishersList);
+        const revoked = await revokeApiKey(req.params.id);
+        await logAction("REVOKE_API_KEY", { id: revoked.id, name: revoked.name });
+        await recordAudit("REVOKE_API_KEY", { details: { id: revoked.id, name: revoked.name } });
+        res.json({ success: true, key: revoked });
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
-        await logAction("ERROR", {
-            endpoint: "/api/publishers",
-            method: "GET",
-            error: errorMessage
+        if (sendLockError(res, errorMessage)) {
+            return;
+        }
+        if (errorMessage === "API key not found") {
+            return res.status(404).json({ error: errorMessage });
+        }
+        console.error("Error revoking API key:", error);
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        res.status(500).json({
+            error: "Failed to revoke API key",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
         });
+    }
+});
+
+// Admin endpoints to manage webhook subscriptions. The signing secret is only returned on creation.
+app.get("/api/admin/webhooks", async (req: express.Request, res: express.Response) => {
+    try {
+        const webhooks = await readWebhooks();
+        res.json({ webhooks: webhooks.map(summarizeWebhook) });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        console.error("Error reading webhooks:", error);
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
         res.status(500).json({
-            error: "Failed to read publishers data",
+            error: "Failed to read webhooks",
             ...(process.env.NODE_ENV === "development" && { details: errorMessage })
         });
     }
 });
 
-// API endpoint to get a specific publisher config
-app.get("/api/publisher/:filename", async (req: express.Request, res: express.Response) => {
+// { url, events?: ["created", "updated", "deleted", "toggled"], description? }
+app.post("/api/admin/webhooks", async (req: express.Request, res: express.Response) => {
+    const request = parseWebhookRequest(req.body);
+    if (typeof request === "string") {
+        return res.status(400).json({ error: request });
+    }
+
     try {
-        const { filename } = req.params;
+        const webhook = await createWebhook(request, getActor(req, res));
+        await logAction("CREATE_WEBHOOK", { id: webhook.id, url: webhook.url, events: webhook.events });
+        await recordAudit("CREATE_WEBHOOK", { details: { id: webhook.id, url: webhook.url, events: webhook.events } });
+        res.status(201).json(webhook);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (sendLockError(res, errorMessage)) {
+            return;
+        }
+        console.error("Error creating webhook:", error);
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        res.status(500).json({
+            error: "Failed to create webhook",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
 
-        if (!validateFilename(filename)) {
-            return res.status(400).json({ error: "Invalid filename" });
+app.delete("/api/admin/webhooks/:id", async (req: express.Request, res: express.Response) => {
+    try {
+        const webhook = await deleteWebhook(req.params.id);
+        await logAction("DELETE_WEBHOOK", { id: webhook.id, url: webhook.url });
+        await recordAudit("DELETE_WEBHOOK", { details: { id: webhook.id, url: webhook.url } });
+        res.json({ success: true, webhook: summarizeWebhook(webhook) });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (sendLockError(res, errorMessage)) {
+            return;
+        }
+        if (errorMessage === "Webhook not found") {
+            return res.status(404).json({ error: errorMessage });
         }
+        console.error("Error deleting webhook:", error);
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        res.status(500).json({
+            error: "Failed to delete webhook",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// Delivery status of the webhook events, newest first
+// Filters: status (pending, delivered or dead - the dead letters), webhook (subscription ID)
+app.get("/api/admin/webhooks/deliveries", async (req: express.Request, res: express.Response) => {
+    const { status, webhook } = req.query;
+    if (status !== undefined && !WEBHOOK_DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+        return res.status(400).json({ error: `status must be one of ${WEBHOOK_DELIVERY_STATUSES.join(", ")}` });
+    }
 
-        const dataPath = path.join(__dirname, "./data", filename);
-        const data = await fs.readFile(dataPath, "utf-8");
-        res.json(JSON.parse(data));
+    try {
+        const deliveries = (await readWebhookDeliveries())
+            .filter(delivery => (status === undefined || delivery.status === status) && (webhook === undefined || delivery.subscriptionId === webhook))
+            .reverse();
+        res.json({ deliveries });
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
-        if (errorMessage.includes("ENOENT")) {
-            res.status(404).json({ error: "Publisher config not found" });
-        } else {
-            const errorStack = error instanceof Error ? error.stack : undefined;
-            await logAction("ERROR", {
-                endpoint: req.path,
-                method: req.method,
-                filename: req.params.filename,
-                error: errorMessage,
-                stack: process.env.NODE_ENV === "development" ? errorStack : undefined
-            });
+        console.error("Error reading webhook deliveries:", error);
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        res.status(500).json({
+            error: "Failed to read webhook deliveries",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
 
-            console.error("Error reading publisher:", errorMessage);
-            res.status(500).json({
-                error: "Failed to read publisher config",
-                ...(process.env.NODE_ENV === "development" && { details: errorMessage })
-            });
+// Queue a dead delivery again
+app.post("/api/admin/webhooks/deliveries/:id/retry", async (req: express.Request, res: express.Response) => {
+    try {
+        const delivery = await retryWebhookDelivery(req.params.id);
+        await logAction("RETRY_WEBHOOK_DELIVERY", { id: delivery.id, subscriptionId: delivery.subscriptionId });
+        res.json({ success: true, delivery });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (sendLockError(res, errorMessage)) {
+            return;
+        }
+        if (errorMessage === "Delivery not found") {
+            return res.status(404).json({ error: errorMessage });
         }
+        if (errorMessage === "Only dead deliveries can be retried") {
+            return res.status(409).json({ error: errorMessage });
+        }
+        console.error("Error retrying webhook delivery:", error);
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        res.status(500).json({
+            error: "Failed to retry webhook delivery",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
     }
 });
 
-// API endpoint to update a publisher config
-app.put("/api/publisher/:filename", async (req: express.Request, res: express.Response) => {
+// API endpoint to query the audit log (admins only), newest first
+// Filters: publisher (publisherId or filename), actor, action (comma separated),
+// from and to (ISO 8601), limit (default 100)
+// e.g. /api/audit?publisher=pub-aurora&action=UPDATE_PUBLISHER answers who turned off a publisher and when
+app.get("/api/audit", async (req: express.Request, res: express.Response) => {
     try {
-        const { filename } = req.params;
+        const query = parseAuditQuery(req.query);
+        if (typeof query === "string") {
+            return res.status(400).json({ error: query });
+        }
+        res.json(await queryAudit(query));
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        console.error("Error reading audit log:", errorMessage);
+        res.status(500).json({
+            error: "Failed to read audit log",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
 
-        if (!validateFilename(filename)) {
-            return res.status(400).json({ error: "Invalid filename" });
+// Interval of the comment lines keeping idle event streams open through proxies
+const EVENTS_HEARTBEAT_MS = Number(process.env.EVENTS_HEARTBEAT_MS) || 25_000;
+
+// Live stream of publisher changes (Server-Sent Events): "created", "updated" and "deleted"
+// events carrying the new list entry and ETag. A client reconnecting with Last-Event-ID
+// (or ?lastEventId=) gets the events it missed, or a "reset" event when they are no longer
+// known and it should reload. Publisher-scoped callers only get the publishers of their scope.
+app.get("/api/events", (req: express.Request, res: express.Response) => {
+    const principal: Principal = res.locals.principal;
+    const visible = (event: PublisherEvent) =>
+        inScope(principal, { file: event.filename, publisherId: event.publisherId, tags: event.item?.tags });
+
+    res.set({
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        // Keeps nginx from buffering the stream
+        "X-Accel-Buffering": "no"
+    });
+    res.flushHeaders();
+    res.write("retry: 5000\n\n");
+
+    const lastEventId = req.get("Last-Event-ID") ?? (typeof req.query.lastEventId === "string" ? req.query.lastEventId : undefined);
+    if (lastEventId !== undefined) {
+        const missed = eventsSince(lastEventId);
+        if (missed === null) {
+            res.write("event: reset\ndata: {}\n\n");
+        } else {
+            missed.filter(visible).forEach(event => res.write(formatEvent(event)));
         }
+    }
 
-        const validation = validatePublisherConfig(req.body);
-        if (!validation.valid) {
-            return res.status(400).json({ error: validation.error });
+    const unsubscribe = subscribeEvents(event => {
+        if (visible(event)) {
+            res.write(formatEvent(event));
         }
+    });
+    const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), EVENTS_HEARTBEAT_MS);
+    req.on("close", () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+    });
+});
 
-        await logAction("UPDATE_PUBLISHER", { filename, publisherId: req.body.publisherId });
+// API endpoint to get the PublisherConfig JSON Schema (used by the frontend to build forms)
+app.get("/api/schema", (_req: express.Request, res: express.Response) => {
+    res.json({
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        $id: "publisher-config",
+        ...publisherConfigSchema
+    });
+});
 
-        await withFileLock(filename, async () => {
-            const dataPath = path.join(__dirname, "./data", filename);
-            await fs.writeFile(dataPath, JSON.stringify(req.body, null, 2), "utf-8");
+// Build the search index from the publisher list and the configs it references
+async function loadPublisherIndex(): Promise<IndexedPublisher[]> {
+    const publishers = await repository.list();
 
-            const publishersList = await readPublishersList();
+    return Promise.all(publishers.map(async (item: PublisherListItem) => {
+        let config: PublisherConfig | null = null;
+        if (validateFilename(item.file)) {
+            try {
+                config = (await repository.get(item.file))?.config ?? null;
+            } catch {
+                // Unreadable configs are indexed without their summary fields
+            }
+        }
+        return summarizePublisher(item, config);
+    }));
+}
 
-            const publisherIndex = publishersList.publishers.findIndex((p: PublisherListItem) => p.file === filename);
-            if (publisherIndex !== -1) {
-                const oldAlias = publishersList.publishers[publisherIndex].alias;
-                const newAlias = req.body.aliasName || "";
-                publishersList.publishers[publisherIndex].alias = newAlias;
+// Flag the list entries of publishers with unpublished changes (hasDraft: true)
+async function withDraftFlags(items: PublisherListItem[]): Promise<(PublisherListItem & { hasDraft?: true })[]> {
+    const drafts = new Set(await listDraftFiles());
+    return items.map(item => drafts.has(item.file) ? { ...item, hasDraft: true } : item);
+}
 
-                // Only sort if alias changed
-                if (oldAlias !== newAlias) {
-                    publishersList.publishers.sort((a: PublisherListItem, b: PublisherListItem) => a.alias.localeCompare(b.alias));
-                }
+// API endpoint to get publishers list. Entries with a draft have hasDraft: true.
+// Optional filters: isActive, tags (comma separated, all must match), pageType, position,
+// q (text match on alias, ID and notes), sort (alias|id|file, "-" for descending), limit and cursor
+app.get("/api/publishers", async (req: express.Request, res: express.Response) => {
+    try {
+        // Publisher-scoped callers only see the publishers of their scope. Scopes are
+        // matched on the indexed configs, as publishers.json entries may lack their tags.
+        const principal: Principal = res.locals.principal;
+        const visible = (entry: IndexedPublisher) =>
+            inScope(principal, { file: entry.item.file, publisherId: entry.item.id, tags: entry.tags });
+
+        if (Object.keys(req.query).length === 0) {
+            const publishers = await withDraftFlags(await repository.list());
+            if (!principal.scope) {
+                return res.json({ publishers });
             }
+            await ensureIndexLoaded(loadPublisherIndex, await repository.version());
+            const visibleFiles = new Set(queryPublisherIndex({ sort: "file", descending: false }, visible).items.map(entry => entry.item.file));
+            return res.json({ publishers: publishers.filter(item => visibleFiles.has(item.file)) });
+        }
 
-            const publishersListPath = path.join(__dirname, "./data/publishers.json");
-            await fs.writeFile(publishersListPath, JSON.stringify(publishersList, null, 2), "utf-8");
-        });
+        const query = parsePublisherQuery(req.query);
+        if (typeof query === "string") {
+            return res.status(400).json({ error: query });
+        }
 
-        res.json({ success: true, filename });
+        await ensureIndexLoaded(loadPublisherIndex, await repository.version());
+        const { items, total, nextCursor } = queryPublisherIndex(query, visible);
+        res.json({ publishers: await withDraftFlags(items.map(entry => entry.item)), total, nextCursor });
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
-        const errorStack = error instanceof Error ? error.stack : undefined;
-
         await logAction("ERROR", {
-            endpoint: req.path,
-            method: req.method,
-            filename: req.params.filename,
-            error: errorMessage,
-            stack: process.env.NODE_ENV === "development" ? errorStack : undefined
+            endpoint: "/api/publishers",
+            method: "GET",
+            error: errorMessage
         });
-
-        console.error("Error updating publisher:", errorMessage);
         res.status(500).json({
-            error: "Failed to save publisher config",
+            error: "Failed to read publishers data",
             ...(process.env.NODE_ENV === "development" && { details: errorMessage })
         });
     }
 });
 
-// API endpoint to create a publisher config
-app.post("/api/publisher/:filename", async (req: express.Request, res: express.Response) => {
+// API endpoint to get a specific publisher config
+app.get("/api/publisher/:filename", async (req: express.Request, res: express.Response) => {
     try {
         const { filename } = req.params;
 
@@ -400,67 +922,224 @@ app.post("/api/publisher/:filename", async (req: express.Request, res: express.R
             return res.status(400).json({ error: "Invalid filename" });
         }
 
-        const validation = validatePublisherConfig(req.body);
-        if (!validation.valid) {
-            return res.status(400).json({ error: validation.error });
+        const stored = await repository.get(filename);
+        if (!stored) {
+            return res.status(404).json({ error: "Publisher config not found" });
         }
-
-        const dataPath = path.join(__dirname, "./data", filename);
-
-        // Check if file already exists before locking
-        try {
-            await fs.access(dataPath);
-            return res.status(409).json({ error: "Publisher config already exists" });
-        } catch {
-            // File doesn't exist, proceed with creation
+        res.set("ETag", computeEtag(stored.content));
+        res.json(stored.config);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        const errorStack = error instanceof Error ? error.stack : undefined;
+        await logAction("ERROR", {
+            endpoint: req.path,
+            method: req.method,
+            filename: req.params.filename,
+            error: errorMessage,
+            stack: process.env.NODE_ENV === "development" ? errorStack : undefined
+        });
+
+        console.error("Error reading publisher:", errorMessage);
+        res.status(500).json({
+            error: "Failed to read publisher config",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// API endpoint to update a publisher config
+app.put("/api/publisher/:filename", async (req: express.Request, res: express.Response) => {
+    try {
+        const { filename } = req.params;
+
+        const check = await checkPublisherWrite(filename, req.body, "update");
+        if (!check.valid) {
+            return res.status(check.status).json({ error: check.error, errors: check.errors });
         }
 
-        // Check for duplicate publisherId before creating
-        const publishersList = await readPublishersList();
-        const existingPublisher = publishersList.publishers.find(
-            (p: PublisherListItem) => p.id === req.body.publisherId
-        );
-        if (existingPublisher) {
-            return res.status(409).json({
-                error: `Publisher with ID "${req.body.publisherId}" already exists in file "${existingPublisher.file}"`
-            });
+        if (isDryRun(req)) {
+            return res.json({ success: true, dryRun: true, filename, entry: await previewIndexEntry(filename, req.body, "update") });
         }
 
-        await logAction("CREATE_PUBLISHER", { filename, publisherId: req.body.publisherId });
+        await logAction("UPDATE_PUBLISHER", { filename, publisherId: req.body.publisherId });
 
-        await withFileLock(filename, async () => {
-            // Double-check after acquiring lock
-            try {
-                await fs.access(dataPath);
-                throw new Error("Publisher config already exists");
-            } catch (err: any) {
-                if (err.message === "Publisher config already exists") {
-                    throw err;
-                }
-                // File doesn't exist, proceed
+        const saved = await repository.update(filename, req.body, { actor: getActor(req, res), ifMatch: ifMatchHeader(req) });
+        upsertIndexedPublisher(summarizePublisher(saved.item, req.body));
+        await recordPublisherChange("UPDATE_PUBLISHER", { publisherId: saved.item.id, filename, before: saved.previousContent, after: saved.content, item: saved.item });
+
+        res.set("ETag", computeEtag(saved.content));
+        res.json({ success: true, filename });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (sendLockError(res, errorMessage)) {
+            return;
+        }
+        if (errorMessage === "Precondition failed") {
+            return res.status(412).json({ error: "Publisher config was modified by someone else, reload and try again" });
+        }
+        // A changed publisherId that another file already uses
+        if (errorMessage.includes("already exists")) {
+            return res.status(409).json({ error: errorMessage });
+        }
+        const errorStack = error instanceof Error ? error.stack : undefined;
+
+        await logAction("ERROR", {
+            endpoint: req.path,
+            method: req.method,
+            filename: req.params.filename,
+            error: errorMessage,
+            stack: process.env.NODE_ENV === "development" ? errorStack : undefined
+        });
+
+        console.error("Error updating publisher:", errorMessage);
+        res.status(500).json({
+            error: "Failed to save publisher config",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// Format of a PATCH body: given by its Content-Type, or for plain application/json
+// by its shape (an array of operations is a JSON Patch)
+function patchFormat(req: express.Request): PatchFormat {
+    if (req.is("application/json-patch+json")) {
+        return "json-patch";
+    }
+    if (req.is("application/merge-patch+json")) {
+        return "merge-patch";
+    }
+    return Array.isArray(req.body) ? "json-patch" : "merge-patch";
+}
+
+// How often a PATCH without If-Match is re-applied when the config changes between
+// reading and saving it
+const PATCH_ATTEMPTS = 3;
+
+// API endpoint to change part of a publisher config with a JSON Patch (RFC 6902,
+// application/json-patch+json) or a merge patch (RFC 7386, application/merge-patch+json).
+// The patched config goes through the checks of a PUT. Without If-Match the patch
+// applies to the current config, so scripts can e.g. toggle isActive in one request.
+app.patch("/api/publisher/:filename", async (req: express.Request, res: express.Response) => {
+    try {
+        const { filename } = req.params;
+
+        if (!validateFilename(filename)) {
+            return res.status(400).json({ error: "Invalid filename" });
+        }
+
+        const format = patchFormat(req);
+        const ifMatch = ifMatchHeader(req);
+        const principal: Principal = res.locals.principal;
+
+        for (let attempt = 1; ; attempt++) {
+            const stored = await repository.get(filename);
+            if (!stored) {
+                return res.status(404).json({ error: "Publisher config not found" });
+            }
+
+            const patched = (format === "json-patch"
+                ? applyJsonPatch(stored.config, req.body)
+                : applyMergePatch(stored.config, req.body)) as PublisherConfig;
+
+            const check = await checkPublisherWrite(filename, patched, "update");
+            if (!check.valid) {
+                return res.status(check.status).json({ error: check.error, errors: check.errors });
+            }
+            if (!inScope(principal, { file: filename, publisherId: patched.publisherId, tags: patched.tags })) {
+                return res.status(403).json({ error: "Forbidden", reason: `No access to publisher ${filename}` });
             }
 
-            await fs.writeFile(dataPath, JSON.stringify(req.body, null, 2), "utf-8");
+            if (isDryRun(req)) {
+                return res.json({
+                    success: true,
+                    dryRun: true,
+                    filename,
+                    config: patched,
+                    diff: diffPublisherConfigs(stored.config, patched),
+                    entry: await previewIndexEntry(filename, patched, "update")
+                });
+            }
 
-            // Re-read publishers list to ensure we have latest data
-            const updatedPublishersList = await readPublishersList();
+            let saved: SaveResult;
+            try {
+                saved = await repository.update(filename, patched, { actor: getActor(req, res), ifMatch: ifMatch ?? computeEtag(stored.content) });
+            } catch (error) {
+                // Re-apply the patch to the config saved in the meantime
+                if (ifMatch === undefined && attempt < PATCH_ATTEMPTS && error instanceof Error && error.message === "Precondition failed") {
+                    continue;
+                }
+                throw error;
+            }
 
-            updatedPublishersList.publishers.push({
-                id: req.body.publisherId,
-                alias: req.body.aliasName,
-                file: filename,
+            await logAction("PATCH_PUBLISHER", { filename, publisherId: saved.item.id, format });
+            upsertIndexedPublisher(summarizePublisher(saved.item, patched));
+            await recordPublisherChange("UPDATE_PUBLISHER", {
+                publisherId: saved.item.id,
+                filename,
+                before: saved.previousContent,
+                after: saved.content,
+                item: saved.item,
+                details: { patch: format }
             });
 
-            updatedPublishersList.publishers.sort((a: PublisherListItem, b: PublisherListItem) => a.alias.localeCompare(b.alias));
-            const publishersListPath = path.join(__dirname, "./data/publishers.json");
-            await fs.writeFile(publishersListPath, JSON.stringify(updatedPublishersList, null, 2), "utf-8");
+            res.set("ETag", computeEtag(saved.content));
+            return res.json({ success: true, filename, config: patched });
+        }
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (sendLockError(res, errorMessage)) {
+            return;
+        }
+        if (errorMessage.startsWith("Invalid patch")) {
+            return res.status(400).json({ error: errorMessage });
+        }
+        if (errorMessage.startsWith("Patch test failed")) {
+            return res.status(409).json({ error: errorMessage });
+        }
+        if (errorMessage === "Precondition failed") {
+            return res.status(412).json({ error: "Publisher config was modified by someone else, reload and try again" });
+        }
+        if (errorMessage.includes("already exists")) {
+            return res.status(409).json({ error: errorMessage });
+        }
+        await logAction("ERROR", { endpoint: req.path, method: req.method, filename: req.params.filename, error: errorMessage });
+        console.error("Error patching publisher:", errorMessage);
+        res.status(500).json({
+            error: "Failed to patch publisher config",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
         });
+    }
+});
+
+// API endpoint to create a publisher config
+app.post("/api/publisher/:filename", async (req: express.Request, res: express.Response) => {
+    try {
+        const { filename } = req.params;
 
+        const check = await checkPublisherWrite(filename, req.body, "create");
+        if (!check.valid) {
+            return res.status(check.status).json({ error: check.error, errors: check.errors });
+        }
+
+        if (isDryRun(req)) {
+            return res.json({ success: true, dryRun: true, filename, entry: await previewIndexEntry(filename, req.body, "create") });
+        }
+
+        await logAction("CREATE_PUBLISHER", { filename, publisherId: req.body.publisherId });
+
+        const saved = await repository.create(filename, req.body, { actor: getActor(req, res) });
+        upsertIndexedPublisher(summarizePublisher(saved.item, req.body));
+        await recordPublisherChange("CREATE_PUBLISHER", { publisherId: saved.item.id, filename, before: null, after: saved.content, item: saved.item });
+
+        res.set("ETag", computeEtag(saved.content));
         res.status(201).json({ success: true, filename });
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (sendLockError(res, errorMessage)) {
+            return;
+        }
         if (errorMessage.includes("already exists")) {
-            return res.status(409).json({ error: "Publisher config already exists" });
+            return res.status(409).json({ error: errorMessage });
         }
         const errorStack = error instanceof Error ? error.stack : undefined;
         await logAction("ERROR", {
@@ -490,23 +1169,23 @@ app.delete("/api/publisher/:filename", async (req: express.Request, res: express
 
         await logAction("DELETE_PUBLISHER", { filename });
 
-        await withFileLock(filename, async () => {
-            const dataPath = path.join(__dirname, "./data", filename);
-
-            await fs.unlink(dataPath);
-            const publishersList = await readPublishersList();
-
-            publishersList.publishers = publishersList.publishers.filter((p: PublisherListItem) => p.file !== filename);
-
-            const publishersListPath = path.join(__dirname, "./data/publishers.json");
-            await fs.writeFile(publishersListPath, JSON.stringify(publishersList, null, 2), "utf-8");
-        });
+        // The deleted content is kept as a revision so it can be restored later
+        const deleted = await repository.delete(filename, { actor: getActor(req, res), ifMatch: ifMatchHeader(req) });
+        await recordPublisherChange("DELETE_PUBLISHER", { publisherId: deleted.revision.publisherId, filename, before: deleted.content, after: null });
+        removeIndexedPublisher(filename);
+        // A draft could only be published as a re-creation the deleting user did not ask for
+        await discardDraft(filename);
 
         res.json({ success: true });
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
-        if (errorMessage.includes("ENOENT")) {
+        if (sendLockError(res, errorMessage)) {
+            return;
+        }
+        if (errorMessage === "Publisher config not found") {
             res.status(404).json({ error: "Publisher config not found" });
+        } else if (errorMessage === "Precondition failed") {
+            res.status(412).json({ error: "Publisher config was modified by someone else, reload and try again" });
         } else {
             const errorStack = error instanceof Error ? error.stack : undefined;
             await logAction("ERROR", {
@@ -526,38 +1205,1391 @@ app.delete("/api/publisher/:filename", async (req: express.Request, res: express
     }
 });
 
-// Health check endpoint (public, no authentication required)
-app.get("/health", async (_req: express.Request, res: express.Response) => {
-    const dataPath = path.join(__dirname, "./data");
+// Draft of a config as returned by the draft endpoints, with what publishing it would change
+async function describeDraft(draft: Draft) {
+    const live = await repository.get(draft.filename);
+    return {
+        ...draft,
+        etag: draftEtag(draft),
+        // The live config changed after the draft was started: publishing it fails
+        stale: (live ? computeEtag(live.content) : null) !== draft.baseEtag,
+        publishBlocker: publishBlocker(draft, publishRequiresApproval()),
+        diff: live ? diffPublisherConfigs(live.config, draft.config) : null
+    };
+}
+
+// Answer the errors the draft endpoints share. Returns true when the error has been answered.
+function sendDraftError(res: express.Response, errorMessage: string): boolean {
+    if (sendLockError(res, errorMessage)) {
+        return true;
+    }
+    if (errorMessage === "Draft not found") {
+        res.status(404).json({ error: errorMessage });
+    } else if (errorMessage === "Precondition failed") {
+        res.status(412).json({ error: "Draft was modified by someone else, reload and try again" });
+    } else {
+        return false;
+    }
+    return true;
+}
+
+// API endpoint to list the drafts visible to the caller, including drafts of new publishers
+app.get("/api/drafts", async (req: express.Request, res: express.Response) => {
     try {
-        await fs.access(dataPath);
+        const principal: Principal = res.locals.principal;
+        const drafts = (await listDrafts()).filter(draft =>
+            inScope(principal, { file: draft.filename, publisherId: draft.config?.publisherId, tags: draft.config?.tags })
+        );
         res.json({
-            status: "ok",
-            timestamp: new Date().toISOString(),
-            uptime: process.uptime()
+            drafts: drafts.map(draft => {
+                const { config, ...summary } = draft;
+                return { ...summary, publisherId: config?.publisherId, etag: draftEtag(draft) };
+            })
         });
-    } catch {
-        res.status(503).json({
-            status: "error",
-            message: "Data directory not accessible"
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        console.error("Error listing drafts:", errorMessage);
+        res.status(500).json({
+            error: "Failed to read drafts",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
         });
     }
 });
 
-// Error handler middleware
-app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
-    console.error("Error:", err);
-    res.status(500).json({
-        error: "Internal server error",
-        ...(process.env.NODE_ENV === "development" && { message: err.message })
-    });
+// API endpoint to get the draft of a config, with its approvals and diff against the live config
+app.get("/api/publisher/:filename/draft", async (req: express.Request, res: express.Response) => {
+    try {
+        const { filename } = req.params;
+        if (!validateFilename(filename)) {
+            return res.status(400).json({ error: "Invalid filename" });
+        }
+
+        const draft = await readDraft(filename);
+        if (!draft) {
+            return res.status(404).json({ error: "Draft not found" });
+        }
+        res.set("ETag", draftEtag(draft));
+        res.json(await describeDraft(draft));
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        await logAction("ERROR", { endpoint: req.path, method: req.method, filename: req.params.filename, error: errorMessage });
+        console.error("Error reading draft:", errorMessage);
+        res.status(500).json({
+            error: "Failed to read draft",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
 });
 
-// Start the server
-if (process.env.NODE_ENV !== "test") {
-    app.listen(PORT, () => {
-        console.log(`Backend API server running at http://localhost:${PORT}`);
-        console.log(`CORS enabled for: ${FRONTEND_URL}`);
-    });
+// API endpoint to save the draft of a config (or of a new publisher). Drafts are saved even
+// when they would not pass the checks of a PUT; those errors are reported and block publishing.
+// If-Match is checked against the draft's ETag.
+app.put("/api/publisher/:filename/draft", async (req: express.Request, res: express.Response) => {
+    try {
+        const { filename } = req.params;
+        if (!validateFilename(filename)) {
+            return res.status(400).json({ error: "Invalid filename" });
+        }
+        if (!req.body || typeof req.body !== "object" || Array.isArray(req.body)) {
+            return res.status(400).json({ error: "Draft must be a JSON object" });
+        }
+
+        const live = await repository.get(filename);
+        const check = await checkPublisherWrite(filename, req.body, live ? "update" : "create");
+        const draft = await saveDraft(filename, req.body, {
+            actor: getActor(req, res),
+            liveEtag: live ? computeEtag(live.content) : null,
+            ifMatch: ifMatchHeader(req)
+        });
+        await logAction("SAVE_DRAFT", { filename, publisherId: req.body.publisherId });
+        await recordAudit("SAVE_DRAFT", { publisherId: req.body.publisherId, filename });
+
+        res.set("ETag", draftEtag(draft));
+        res.json({ success: true, filename, valid: check.valid, errors: check.errors });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (sendDraftError(res, errorMessage)) {
+            return;
+        }
+        await logAction("ERROR", { endpoint: req.path, method: req.method, filename: req.params.filename, error: errorMessage });
+        console.error("Error saving draft:", errorMessage);
+        res.status(500).json({
+            error: "Failed to save draft",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// API endpoint to discard the draft of a config
+app.delete("/api/publisher/:filename/draft", async (req: express.Request, res: express.Response) => {
+    try {
+        const { filename } = req.params;
+        if (!validateFilename(filename)) {
+            return res.status(400).json({ error: "Invalid filename" });
+        }
+
+        const draft = await discardDraft(filename, ifMatchHeader(req));
+        if (!draft) {
+            return res.status(404).json({ error: "Draft not found" });
+        }
+        await logAction("DISCARD_DRAFT", { filename });
+        await recordAudit("DISCARD_DRAFT", { publisherId: draft.config?.publisherId, filename });
+        res.json({ success: true });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (sendDraftError(res, errorMessage)) {
+            return;
+        }
+        await logAction("ERROR", { endpoint: req.path, method: req.method, filename: req.params.filename, error: errorMessage });
+        console.error("Error discarding draft:", errorMessage);
+        res.status(500).json({
+            error: "Failed to discard draft",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// API endpoint to approve the current content of a draft. Users who edited the draft cannot
+// approve it, and saving the draft again clears its approvals. Send If-Match with the ETag of
+// the reviewed draft so a later save is not approved unseen.
+app.post("/api/publisher/:filename/draft/approve", async (req: express.Request, res: express.Response) => {
+    try {
+        const { filename } = req.params;
+        if (!validateFilename(filename)) {
+            return res.status(400).json({ error: "Invalid filename" });
+        }
+
+        const draft = await approveDraft(filename, { actor: getActor(req, res), ifMatch: ifMatchHeader(req) });
+        await logAction("APPROVE_DRAFT", { filename });
+        await recordAudit("APPROVE_DRAFT", { publisherId: draft.config?.publisherId, filename });
+
+        res.set("ETag", draftEtag(draft));
+        res.json({ success: true, approvals: draft.approvals });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (sendDraftError(res, errorMessage)) {
+            return;
+        }
+        if (errorMessage === "Draft authors cannot approve their own changes") {
+            return res.status(403).json({ error: errorMessage });
+        }
+        await logAction("ERROR", { endpoint: req.path, method: req.method, filename: req.params.filename, error: errorMessage });
+        console.error("Error approving draft:", errorMessage);
+        res.status(500).json({
+            error: "Failed to approve draft",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// API endpoint to publish the draft of a config: the draft goes through the checks of a
+// PUT (or POST for a new publisher), becomes the live config and is removed. With
+// PUBLISH_REQUIRES_APPROVAL=true it must have been approved first. If-Match is checked
+// against the draft's ETag.
+app.post("/api/publisher/:filename/publish", async (req: express.Request, res: express.Response) => {
+    try {
+        const { filename } = req.params;
+        if (!validateFilename(filename)) {
+            return res.status(400).json({ error: "Invalid filename" });
+        }
+        const actor = getActor(req, res);
+
+        const published = await publishDraft(filename, ifMatchHeader(req), async draft => {
+            const blocker = publishBlocker(draft, publishRequiresApproval());
+            if (blocker) {
+                return { published: false, status: 409, body: { error: blocker } };
+            }
+            const mode: WriteMode = draft.baseEtag === null ? "create" : "update";
+            const check = await checkPublisherWrite(filename, draft.config, mode);
+            if (!check.valid) {
+                return { published: false, status: check.status, body: { error: check.error, errors: check.errors } };
+            }
+
+            // The draft only replaces the live config it was started from
+            let saved: SaveResult;
+            try {
+                saved = mode === "create"
+                    ? await repository.create(filename, draft.config, { actor })
+                    : await repository.update(filename, draft.config, { actor, ifMatch: draft.baseEtag! });
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error";
+                if (errorMessage === "Precondition failed" || errorMessage === "Publisher config already exists") {
+                    return { published: false, status: 409, body: { error: "The live config changed after the draft was started, merge the changes into the draft and try again" } };
+                }
+                if (errorMessage.includes("already exists")) {
+                    return { published: false, status: 409, body: { error: errorMessage } };
+                }
+                throw error;
+            }
+            upsertIndexedPublisher(summarizePublisher(saved.item, draft.config));
+
+            const review = { authors: draft.authors, approvals: draft.approvals };
+            await logAction("PUBLISH_DRAFT", { filename, publisherId: draft.config.publisherId, ...review });
+            await recordPublisherChange(mode === "create" ? "CREATE_PUBLISHER" : "UPDATE_PUBLISHER", {
+                publisherId: saved.item.id,
+                filename,
+                before: saved.previousContent,
+                after: saved.content,
+                item: saved.item,
+                details: { publish: review }
+            });
+            return { published: true, status: 200, body: { success: true, filename }, etag: computeEtag(saved.content) };
+        });
+
+        if ("etag" in published) {
+            res.set("ETag", published.etag);
+        }
+        res.status(published.status).json(published.body);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (sendDraftError(res, errorMessage)) {
+            return;
+        }
+        await logAction("ERROR", { endpoint: req.path, method: req.method, filename: req.params.filename, error: errorMessage });
+        console.error("Error publishing draft:", errorMessage);
+        res.status(500).json({
+            error: "Failed to publish draft",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// publishers.json and the per-file layout only exist with the JSON backend
+const JSON_BACKEND_ONLY = "Only available with the json storage backend";
+
+// API endpoint to rebuild publishers.json from the config files in data/ (?dryRun=true to preview)
+app.post("/api/publishers/reconcile", async (req: express.Request, res: express.Response) => {
+    try {
+        if (repository.backend !== "json") {
+            return res.status(400).json({ error: JSON_BACKEND_ONLY });
+        }
+        const report = await reconcilePublishersList({ dryRun: isDryRun(req) });
+        if (!report.dryRun) {
+            resetPublisherIndex();
+            runtimeCache.invalidate();
+            await logAction("RECONCILE_PUBLISHERS", {
+                added: report.added,
+                removed: report.removed,
+                updated: report.updated
+            });
+            await recordAudit("RECONCILE_PUBLISHERS", { details: { added: report.added, removed: report.removed, updated: report.updated } });
+        }
+        res.json(report);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (sendLockError(res, errorMessage)) {
+            return;
+        }
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        console.error("Error reconciling publishers:", errorMessage);
+        res.status(500).json({
+            error: "Failed to reconcile publishers list",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// Admin endpoints reporting (GET) or repairing (POST) drift between publishers.json and data/
+app.get("/api/admin/consistency", async (req: express.Request, res: express.Response) => {
+    try {
+        if (repository.backend !== "json") {
+            return res.status(400).json({ error: JSON_BACKEND_ONLY });
+        }
+        res.json(await checkConsistency());
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        console.error("Error checking consistency:", errorMessage);
+        res.status(500).json({
+            error: "Failed to check consistency",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+app.post("/api/admin/consistency/fix", async (req: express.Request, res: express.Response) => {
+    try {
+        if (repository.backend !== "json") {
+            return res.status(400).json({ error: JSON_BACKEND_ONLY });
+        }
+        const report = await checkConsistency({ fix: true });
+        if (report.issues.some(issue => issue.fixed)) {
+            resetPublisherIndex();
+            runtimeCache.invalidate();
+            const fixed = report.issues.filter(issue => issue.fixed).map(issue => `${issue.type}: ${issue.message}`);
+            await logAction("FIX_CONSISTENCY", { fixed, backup: report.backup });
+            await recordAudit("FIX_CONSISTENCY", { details: { fixed, backup: report.backup } });
+        }
+        res.json(report);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (sendLockError(res, errorMessage)) {
+            return;
+        }
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        console.error("Error fixing consistency:", errorMessage);
+        res.status(500).json({
+            error: "Failed to fix consistency issues",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// API endpoint to validate a config without saving it. Runs the same checks as
+// PUT (?mode=update) or POST (?mode=create); by default the mode follows whether the file exists.
+app.post("/api/publisher/:filename/validate", async (req: express.Request, res: express.Response) => {
+    try {
+        const { filename } = req.params;
+        let mode = req.query.mode as WriteMode | undefined;
+
+        if (mode !== undefined && mode !== "create" && mode !== "update") {
+            return res.status(400).json({ error: "mode must be create or update" });
+        }
+        if (!mode) {
+            mode = validateFilename(filename) && await repository.exists(filename) ? "update" : "create";
+        }
+
+        res.json(await dryRunPublisherWrite(filename, req.body, mode));
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        await logAction("ERROR", {
+            endpoint: req.path,
+            method: req.method,
+            filename: req.params.filename,
+            error: errorMessage
+        });
+
+        console.error("Error validating publisher:", errorMessage);
+        res.status(500).json({
+            error: "Failed to validate publisher config",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// API endpoint to lint a batch of configs: { items: [{ filename, config, mode? }] }
+// Besides the per-file checks, items of the batch must not clash with each other.
+app.post("/api/publishers/validate", async (req: express.Request, res: express.Response) => {
+    try {
+        const items = req.body?.items;
+        if (!Array.isArray(items) || items.length === 0) {
+            return res.status(400).json({ error: "items must be a non-empty array" });
+        }
+        if (items.length > 500) {
+            return res.status(400).json({ error: "At most 500 items can be validated at once" });
+        }
+
+        const seenFiles = new Map<string, number>();
+        const seenIds = new Map<string, number>();
+        const results = [];
+
+        for (let i = 0; i < items.length; i++) {
+            const { filename, config, mode } = items[i] || {};
+            const name = typeof filename === "string" ? filename : "";
+            const result = await dryRunPublisherWrite(name, config, mode === "update" ? "update" : "create");
+
+            if (seenFiles.has(name)) {
+                result.valid = false;
+                result.errors.push({ path: "$", message: `Filename "${name}" is also used by item ${seenFiles.get(name)}` });
+            }
+            const publisherId = config?.publisherId;
+            if (typeof publisherId === "string" && seenIds.has(publisherId)) {
+                result.valid = false;
+                result.errors.push({ path: "$.publisherId", message: `Publisher ID "${publisherId}" is also used by item ${seenIds.get(publisherId)}` });
+            }
+            seenFiles.set(name, i);
+            if (typeof publisherId === "string") {
+                seenIds.set(publisherId, i);
+            }
+
+            results.push(result);
+        }
+
+        res.json({ valid: results.every(result => result.valid), results });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        await logAction("ERROR", {
+            endpoint: req.path,
+            method: req.method,
+            error: errorMessage
+        });
+
+        console.error("Error validating publishers:", errorMessage);
+        res.status(500).json({
+            error: "Failed to validate publisher configs",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// Outcome of a bulk update for one selected publisher
+interface BulkItemResult {
+    file: string;
+    publisherId: string;
+    status: "updated" | "unchanged" | "invalid" | "failed";
+    errors?: SchemaError[];
+    // Preview of the change (dry run)
+    diff?: ConfigDiff;
+}
+
+// API endpoint to update many publishers at once: { selector, operations, transactional? }
+// Each selected config is patched and goes through the checks of a PUT. By default every
+// valid change is saved under its file lock and the others are reported per item; with
+// transactional: true nothing is saved unless all of them can be. ?dryRun=true previews the diffs.
+app.post("/api/publishers/bulk", async (req: express.Request, res: express.Response) => {
+    try {
+        const bulk = parseBulkRequest(req.body);
+        if (typeof bulk === "string") {
+            return res.status(400).json({ error: bulk });
+        }
+
+        // Publisher-scoped callers only select, and keep, publishers of their scope
+        const principal: Principal = res.locals.principal;
+        await ensureIndexLoaded(loadPublisherIndex, await repository.version());
+        const selected = queryPublisherIndex(
+            { ...bulk.selector.filter, sort: "file", descending: false },
+            entry => inScope(principal, { file: entry.item.file, publisherId: entry.item.id, tags: entry.tags }) &&
+                selectsPublisher(bulk.selector, entry)
+        ).items;
+        if (selected.length > MAX_BULK_PUBLISHERS) {
+            return res.status(400).json({ error: `The selector matches ${selected.length} publishers, at most ${MAX_BULK_PUBLISHERS} can be updated at once` });
+        }
+
+        const results: BulkItemResult[] = [];
+        const planned: { result: BulkItemResult; content: string; config: PublisherConfig }[] = [];
+        for (const { item } of selected) {
+            const result: BulkItemResult = { file: item.file, publisherId: item.id, status: "unchanged" };
+            results.push(result);
+
+            const stored = await repository.get(item.file);
+            if (!stored) {
+                result.status = "failed";
+                result.errors = [{ path: "$", message: "Publisher config not found" }];
+                continue;
+            }
+            const updated = applyBulkOperations(stored.config, bulk.operations);
+            if (!updated) {
+                continue;
+            }
+
+            const check = await checkPublisherWrite(item.file, updated, "update");
+            if (check.valid && !inScope(principal, { file: item.file, publisherId: updated.publisherId, tags: updated.tags })) {
+                check.errors.push({ path: "$", message: "The change would move the publisher out of your scope" });
+            }
+            if (check.errors.length > 0) {
+                result.status = "invalid";
+                result.errors = check.errors;
+                continue;
+            }
+            planned.push({ result, content: stored.content, config: updated });
+        }
+
+        // A dry run reports what a real run would do
+        if (isDryRun(req)) {
+            for (const { result, content, config } of planned) {
+                result.status = "updated";
+                result.diff = diffPublisherConfigs(JSON.parse(content), config);
+            }
+            return res.json({ success: results.every(result => result.status !== "invalid" && result.status !== "failed"), dryRun: true, transactional: bulk.transactional, results });
+        }
+
+        const actor = getActor(req, res);
+        const rejected = results.filter(result => result.status === "invalid" || result.status === "failed");
+        if (bulk.transactional && rejected.length > 0) {
+            return res.status(400).json({
+                error: `No publisher was updated: ${rejected.length} of ${results.length} cannot be updated`,
+                results
+            });
+        }
+
+        // Saved with the ETag they were read with, so concurrent saves are not overwritten
+        let saves: (typeof planned[number] & { saved: SaveResult })[] = [];
+        if (bulk.transactional) {
+            const saved = await repository.updateMany(
+                planned.map(({ result, content, config }) => ({ filename: result.file, config, ifMatch: computeEtag(content) })),
+                { actor }
+            );
+            saves = planned.map((entry, i) => ({ ...entry, saved: saved[i] }));
+        } else {
+            for (const entry of planned) {
+                try {
+                    saves.push({ ...entry, saved: await repository.update(entry.result.file, entry.config, { actor, ifMatch: computeEtag(entry.content) }) });
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+                    entry.result.status = "failed";
+                    entry.result.errors = [{
+                        path: "$",
+                        message: errorMessage === "Precondition failed" ? "Publisher config was modified by someone else" : errorMessage
+                    }];
+                }
+            }
+        }
+
+        for (const { result, config, saved } of saves) {
+            result.status = "updated";
+            upsertIndexedPublisher(summarizePublisher(saved.item, config));
+            await recordPublisherChange("UPDATE_PUBLISHER", {
+                publisherId: saved.item.id,
+                filename: result.file,
+                before: saved.previousContent,
+                after: saved.content,
+                item: saved.item,
+                details: { bulk: { operations: bulk.operations } }
+            });
+        }
+
+        const failed = results.filter(result => result.status === "invalid" || result.status === "failed");
+        await logAction("BULK_UPDATE_PUBLISHERS", {
+            operations: bulk.operations,
+            transactional: bulk.transactional,
+            updated: saves.map(({ result }) => result.file),
+            failed: failed.map(result => result.file)
+        });
+        res.json({ success: failed.length === 0, dryRun: false, transactional: bulk.transactional, results });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (sendLockError(res, errorMessage)) {
+            return;
+        }
+        if (errorMessage === "Precondition failed") {
+            return res.status(412).json({ error: "A selected publisher was modified by someone else, nothing was updated" });
+        }
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        console.error("Error updating publishers in bulk:", errorMessage);
+        res.status(500).json({
+            error: "Failed to update publishers",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// API endpoint to export every config: ?format=ndjson (default) streams a bundle that
+// POST /api/import accepts, ?format=csv one row per page for spreadsheet review.
+// Publisher-scoped callers only get the publishers of their scope.
+app.get("/api/export", async (req: express.Request, res: express.Response) => {
+    try {
+        const format = req.query.format ?? "ndjson";
+        if (format !== "ndjson" && format !== "csv") {
+            return res.status(400).json({ error: "format must be ndjson or csv" });
+        }
+
+        const principal: Principal = res.locals.principal;
+        await ensureIndexLoaded(loadPublisherIndex, await repository.version());
+        const publishers = queryPublisherIndex(
+            { sort: "file", descending: false },
+            entry => inScope(principal, { file: entry.item.file, publisherId: entry.item.id, tags: entry.tags })
+        ).items.map(entry => entry.item);
+
+        const date = new Date().toISOString().slice(0, 10);
+        res.set("Content-Disposition", `attachment; filename="publishers-${date}.${format}"`);
+        if (format === "csv") {
+            res.type("text/csv; charset=utf-8");
+            res.write(csvHeader());
+        } else {
+            res.type("application/x-ndjson; charset=utf-8");
+            res.write(bundleLine({ type: "manifest", version: BUNDLE_VERSION, exportedAt: new Date().toISOString(), count: publishers.length }));
+            res.write(bundleLine({ type: "publishers", publishers }));
+        }
+
+        // One config in memory at a time
+        for (const item of publishers) {
+            const stored = validateFilename(item.file) ? await repository.get(item.file) : null;
+            if (!stored) {
+                continue;
+            }
+            if (format === "csv") {
+                csvRows(item.file, stored.config).forEach(row => res.write(row));
+            } else {
+                res.write(bundleLine({ type: "config", filename: item.file, config: stored.config }));
+            }
+        }
+
+        await logAction("EXPORT_PUBLISHERS", { format, count: publishers.length });
+        res.end();
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        console.error("Error exporting publishers:", errorMessage);
+        // A truncated export must not look complete
+        if (res.headersSent) {
+            return res.destroy(error instanceof Error ? error : undefined);
+        }
+        res.status(500).json({
+            error: "Failed to export publishers",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// Outcome of a POST /api/import for one config of the bundle
+interface ImportItemResult {
+    filename: string;
+    publisherId?: string;
+    status: "created" | "overwritten" | "skipped" | "invalid" | "conflict" | "failed";
+    errors?: SchemaError[];
+    // Existing filename or publisherId the config clashes with
+    conflicts?: string[];
+}
+
+// Import bundles hold every config at once
+const IMPORT_MAX_SIZE = "50mb";
+
+// API endpoint to import configs: an NDJSON bundle from GET /api/export
+// (Content-Type: application/x-ndjson) or { items: [{ filename, config }] }.
+// Every config goes through the checks of a save. ?mode= decides what happens to configs
+// whose filename or publisherId is taken: fail (default, import nothing), skip, or
+// overwrite (same filename only). ?dryRun=true reports without writing.
+app.post("/api/import", express.text({ type: "application/x-ndjson", limit: IMPORT_MAX_SIZE }), async (req: express.Request, res: express.Response) => {
+    try {
+        const mode = req.query.mode ?? "fail";
+        if (!isImportMode(mode)) {
+            return res.status(400).json({ error: `mode must be one of ${IMPORT_MODES.join(", ")}` });
+        }
+        const items = parseImportBundle(req.body);
+        if (typeof items === "string") {
+            return res.status(400).json({ error: items });
+        }
+        if (items.length === 0) {
+            return res.status(400).json({ error: "The bundle holds no configs" });
+        }
+
+        const existingIds = new Map((await repository.list()).map(item => [item.id, item.file]));
+        const seenFiles = new Map<string, number>();
+        const seenIds = new Map<string, number>();
+        const results: ImportItemResult[] = [];
+
+        for (let i = 0; i < items.length; i++) {
+            const { filename, config } = items[i];
+            const publisherId = (config as PublisherConfig | undefined)?.publisherId;
+            const result: ImportItemResult = { filename, ...(typeof publisherId === "string" && { publisherId }), status: "created" };
+            results.push(result);
+
+            const errors = [...(await checkPublisherWrite(filename, config, "update")).errors];
+            if (seenFiles.has(filename)) {
+                errors.push({ path: "$", message: `Filename "${filename}" is also used by entry ${seenFiles.get(filename)}` });
+            }
+            if (typeof publisherId === "string" && seenIds.has(publisherId)) {
+                errors.push({ path: "$.publisherId", message: `Publisher ID "${publisherId}" is also used by entry ${seenIds.get(publisherId)}` });
+            }
+            seenFiles.set(filename, i);
+            if (typeof publisherId === "string") {
+                seenIds.set(publisherId, i);
+            }
+            if (errors.length > 0) {
+                result.status = "invalid";
+                result.errors = errors;
+                continue;
+            }
+
+            const fileTaken = await repository.exists(filename);
+            const idOwner = existingIds.get(publisherId as string);
+            const idTaken = idOwner !== undefined && idOwner !== filename;
+            if (!fileTaken && !idTaken) {
+                continue;
+            }
+            result.conflicts = [
+                ...(fileTaken ? [`${filename} already exists`] : []),
+                ...(idTaken ? [`Publisher ID "${publisherId}" is used by ${idOwner}`] : [])
+            ];
+            // Overwriting replaces a file, it cannot take over the publisherId of another one
+            result.status = mode === "skip" ? "skipped" : mode === "overwrite" && !idTaken ? "overwritten" : "conflict";
+        }
+
+        const rejected = results.filter(result => result.status === "invalid" || result.status === "conflict");
+        if (isDryRun(req)) {
+            return res.json({ success: rejected.length === 0 || mode !== "fail", dryRun: true, mode, results });
+        }
+        if (mode === "fail" && rejected.length > 0) {
+            return res.status(400).json({ error: `Nothing was imported: ${rejected.length} of ${results.length} entries cannot be imported`, mode, results });
+        }
+
+        const actor = getActor(req, res);
+        for (let i = 0; i < items.length; i++) {
+            const result = results[i];
+            if (result.status !== "created" && result.status !== "overwritten") {
+                continue;
+            }
+            const config = items[i].config as PublisherConfig;
+            try {
+                const saved = result.status === "created"
+                    ? await repository.create(result.filename, config, { actor })
+                    : await repository.update(result.filename, config, { actor });
+                upsertIndexedPublisher(summarizePublisher(saved.item, config));
+                await recordPublisherChange(result.status === "created" ? "CREATE_PUBLISHER" : "UPDATE_PUBLISHER", {
+                    publisherId: saved.item.id,
+                    filename: result.filename,
+                    before: saved.previousContent,
+                    after: saved.content,
+                    item: saved.item,
+                    details: { import: { mode } }
+                });
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error";
+                result.status = "failed";
+                result.errors = [{ path: "$", message: errorMessage }];
+            }
+        }
+
+        const count = (status: ImportItemResult["status"]) => results.filter(result => result.status === status).length;
+        const summary = { created: count("created"), overwritten: count("overwritten"), skipped: count("skipped"), failed: results.length - count("created") - count("overwritten") - count("skipped") };
+        await logAction("IMPORT_PUBLISHERS", { mode, ...summary });
+        await recordAudit("IMPORT_PUBLISHERS", { details: { mode, ...summary } });
+        res.json({ success: summary.failed === 0, dryRun: false, mode, summary, results });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (sendLockError(res, errorMessage)) {
+            return;
+        }
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        console.error("Error importing publishers:", errorMessage);
+        res.status(500).json({
+            error: "Failed to import publishers",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// Publishers whose pages use a vocabulary value
+async function findVocabularyUsage(kind: VocabularyKind, value: string): Promise<PublisherListItem[]> {
+    const field = VOCABULARY_FIELDS[kind];
+    const usedBy: PublisherListItem[] = [];
+
+    for (const publisher of await repository.list()) {
+        if (!validateFilename(publisher.file)) {
+            continue;
+        }
+        try {
+            const config = (await repository.get(publisher.file))?.config;
+            if (config && Array.isArray(config.pages) && config.pages.some(page => page?.[field] === value)) {
+                usedBy.push(publisher);
+            }
+        } catch {
+            // Missing or unreadable configs are reported by the consistency tooling, not here
+        }
+    }
+
+    return usedBy;
+}
+
+function parseVocabularyValue(value: unknown): string | null {
+    if (typeof value !== "string" || value.trim() === "" || value.length > 100) {
+        return null;
+    }
+    return value.trim();
+}
+
+// API endpoint to get the allowed page types and positions
+app.get("/api/vocabularies", async (req: express.Request, res: express.Response) => {
+    try {
+        const vocabularies = await readVocabularies();
+        res.json(vocabularies
+            ? { ...vocabularies, enforced: true }
+            : { pageTypes: [], positions: [], enforced: false });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        res.status(500).json({
+            error: "Failed to read vocabularies",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// API endpoint to add an allowed value: { value, label? }
+app.post("/api/vocabularies/:kind", async (req: express.Request, res: express.Response) => {
+    try {
+        const { kind } = req.params;
+        if (!isVocabularyKind(kind)) {
+            return res.status(404).json({ error: "Unknown vocabulary" });
+        }
+
+        const value = parseVocabularyValue(req.body?.value);
+        if (!value) {
+            return res.status(400).json({ error: "value is required and must be a non-empty string of 100 characters or less" });
+        }
+        const label = typeof req.body.label === "string" && req.body.label.trim() !== "" ? req.body.label.trim() : value;
+
+        const entry = await withFileLock(VOCABULARIES_FILE, async () => {
+            const vocabularies = await readVocabularies() || { pageTypes: [], positions: [] };
+            if (vocabularies[kind].some(existing => existing.value === value)) {
+                throw new Error(`Value "${value}" already exists`);
+            }
+
+            const newEntry = { value, label };
+            vocabularies[kind].push(newEntry);
+            await writeVocabularies(vocabularies);
+            return newEntry;
+        });
+
+        await logAction("CREATE_VOCABULARY_VALUE", { kind, value });
+        await recordAudit("CREATE_VOCABULARY_VALUE", { details: { kind, entry } });
+        res.status(201).json({ success: true, kind, entry });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (sendLockError(res, errorMessage)) {
+            return;
+        }
+        if (errorMessage.includes("already exists")) {
+            return res.status(409).json({ error: errorMessage });
+        }
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        console.error("Error adding vocabulary value:", errorMessage);
+        res.status(500).json({
+            error: "Failed to update vocabularies",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// API endpoint to relabel or rename an allowed value: { value?, label? }
+// A value in use is only renamed with ?rewrite=true, which rewrites every publisher using it.
+app.put("/api/vocabularies/:kind/:value", async (req: express.Request, res: express.Response) => {
+    try {
+        const { kind, value: currentValue } = req.params;
+        if (!isVocabularyKind(kind)) {
+            return res.status(404).json({ error: "Unknown vocabulary" });
+        }
+
+        const newValue = req.body?.value === undefined ? currentValue : parseVocabularyValue(req.body.value);
+        if (!newValue) {
+            return res.status(400).json({ error: "value must be a non-empty string of 100 characters or less" });
+        }
+        const rewrite = req.query.rewrite === "true";
+
+        const result = await withFileLock(VOCABULARIES_FILE, async () => {
+            const vocabularies = await readVocabularies();
+            const entry = vocabularies?.[kind].find(existing => existing.value === currentValue);
+            if (!vocabularies || !entry) {
+                throw new Error("Vocabulary value not found");
+            }
+            if (newValue !== currentValue && vocabularies[kind].some(existing => existing.value === newValue)) {
+                throw new Error(`Value "${newValue}" already exists`);
+            }
+
+            // Renaming a value in use would leave its publishers failing validation
+            const affected = newValue === currentValue ? [] : await findVocabularyUsage(kind, currentValue);
+            if (affected.length > 0 && !rewrite) {
+                return { usedBy: affected.map(item => item.file) };
+            }
+
+            entry.value = newValue;
+            if (typeof req.body?.label === "string" && req.body.label.trim() !== "") {
+                entry.label = req.body.label.trim();
+            }
+
+            const rewritten: string[] = [];
+            if (affected.length === 0) {
+                await writeVocabularies(vocabularies);
+                return { entry, rewritten };
+            }
+
+            const updates: BatchUpdate[] = [];
+            for (const item of affected) {
+                const stored = await repository.get(item.file);
+                const updated = stored && renameVocabularyValue(stored.config, kind, currentValue, newValue);
+                if (updated) {
+                    // Guarded by the ETag, so a concurrent save of the publisher is not overwritten
+                    updates.push({ filename: item.file, config: updated, ifMatch: computeEtag(stored.content) });
+                }
+            }
+
+            // The registry and the configs using the value are changed in one transaction
+            const saved = await repository.updateMany(updates, { actor: getActor(req, res), files: [vocabulariesChange(vocabularies)] });
+            for (let i = 0; i < updates.length; i++) {
+                upsertIndexedPublisher(summarizePublisher(saved[i].item, updates[i].config));
+                await recordPublisherChange("UPDATE_PUBLISHER", {
+                    publisherId: saved[i].item.id,
+                    filename: updates[i].filename,
+                    before: saved[i].previousContent,
+                    after: saved[i].content,
+                    item: saved[i].item,
+                    details: { vocabularyRename: { kind, from: currentValue, to: newValue } }
+                });
+                rewritten.push(updates[i].filename);
+            }
+
+            return { entry, rewritten };
+        });
+
+        if ("usedBy" in result) {
+            return res.status(409).json({ error: `Value "${currentValue}" is still used, rename it with ?rewrite=true`, usedBy: result.usedBy });
+        }
+
+        await logAction("UPDATE_VOCABULARY_VALUE", { kind, from: currentValue, to: newValue, rewritten: result.rewritten });
+        await recordAudit("UPDATE_VOCABULARY_VALUE", { details: { kind, from: currentValue, entry: result.entry, rewritten: result.rewritten } });
+        res.json({ success: true, kind, ...result });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (sendLockError(res, errorMessage)) {
+            return;
+        }
+        if (errorMessage === "Vocabulary value not found") {
+            return res.status(404).json({ error: errorMessage });
+        }
+        if (errorMessage === "Precondition failed") {
+            return res.status(412).json({ error: "A publisher using the value was modified by someone else, nothing was changed" });
+        }
+        if (errorMessage.includes("already exists")) {
+            return res.status(409).json({ error: errorMessage });
+        }
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        console.error("Error updating vocabulary value:", errorMessage);
+        res.status(500).json({
+            error: "Failed to update vocabularies",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// API endpoint to remove an allowed value. Refused while publishers use it, unless ?force=true.
+app.delete("/api/vocabularies/:kind/:value", async (req: express.Request, res: express.Response) => {
+    try {
+        const { kind, value } = req.params;
+        if (!isVocabularyKind(kind)) {
+            return res.status(404).json({ error: "Unknown vocabulary" });
+        }
+
+        const usedBy = await withFileLock(VOCABULARIES_FILE, async () => {
+            const vocabularies = await readVocabularies();
+            if (!vocabularies || !vocabularies[kind].some(existing => existing.value === value)) {
+                throw new Error("Vocabulary value not found");
+            }
+
+            const usage = await findVocabularyUsage(kind, value);
+            if (usage.length > 0 && req.query.force !== "true") {
+                return usage.map(item => item.file);
+            }
+
+            vocabularies[kind] = vocabularies[kind].filter(existing => existing.value !== value);
+            await writeVocabularies(vocabularies);
+            return null;
+        });
+
+        if (usedBy) {
+            return res.status(409).json({ error: `Value "${value}" is still used`, usedBy });
+        }
+
+        await logAction("DELETE_VOCABULARY_VALUE", { kind, value });
+        await recordAudit("DELETE_VOCABULARY_VALUE", { details: { kind, value, force: req.query.force === "true" } });
+        res.json({ success: true });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (sendLockError(res, errorMessage)) {
+            return;
+        }
+        if (errorMessage === "Vocabulary value not found") {
+            return res.status(404).json({ error: errorMessage });
+        }
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        console.error("Error deleting vocabulary value:", errorMessage);
+        res.status(500).json({
+            error: "Failed to update vocabularies",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// API endpoint to list the revisions of a publisher config (newest first)
+app.get("/api/publisher/:filename/revisions", async (req: express.Request, res: express.Response) => {
+    try {
+        const { filename } = req.params;
+
+        if (!validateFilename(filename)) {
+            return res.status(400).json({ error: "Invalid filename" });
+        }
+
+        const revisions = await repository.listRevisions(filename);
+        res.json({ filename, revisions });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        await logAction("ERROR", {
+            endpoint: req.path,
+            method: req.method,
+            filename: req.params.filename,
+            error: errorMessage
+        });
+
+        console.error("Error listing revisions:", errorMessage);
+        res.status(500).json({
+            error: "Failed to read publisher revisions",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// API endpoint to get a single revision of a publisher config
+app.get("/api/publisher/:filename/revisions/:revision", async (req: express.Request, res: express.Response) => {
+    try {
+        const { filename } = req.params;
+        const revision = Number(req.params.revision);
+
+        if (!validateFilename(filename)) {
+            return res.status(400).json({ error: "Invalid filename" });
+        }
+        if (!Number.isInteger(revision) || revision < 1) {
+            return res.status(400).json({ error: "Invalid revision" });
+        }
+
+        const entry = await repository.getRevision(filename, revision);
+        if (!entry) {
+            return res.status(404).json({ error: "Revision not found" });
+        }
+
+        res.json(entry);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        await logAction("ERROR", {
+            endpoint: req.path,
+            method: req.method,
+            filename: req.params.filename,
+            error: errorMessage
+        });
+
+        console.error("Error reading revision:", errorMessage);
+        res.status(500).json({
+            error: "Failed to read publisher revision",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// API endpoint to restore a publisher config to a previous revision
+app.post("/api/publisher/:filename/revisions/:revision/restore", async (req: express.Request, res: express.Response) => {
+    try {
+        const { filename } = req.params;
+        const revision = Number(req.params.revision);
+
+        if (!validateFilename(filename)) {
+            return res.status(400).json({ error: "Invalid filename" });
+        }
+        if (!Number.isInteger(revision) || revision < 1) {
+            return res.status(400).json({ error: "Invalid revision" });
+        }
+
+        // Restoring a deleted config brings its list entry back as well
+        const restored = await repository.restore(filename, revision, { actor: getActor(req, res) });
+        upsertIndexedPublisher(summarizePublisher(restored.item, JSON.parse(restored.content)));
+
+        await logAction("RESTORE_PUBLISHER", { filename, publisherId: restored.revision.publisherId, fromRevision: revision });
+        await recordPublisherChange("RESTORE_PUBLISHER", {
+            publisherId: restored.item.id,
+            filename,
+            before: restored.previousContent,
+            after: restored.content,
+            item: restored.item,
+            details: { fromRevision: revision }
+        });
+
+        res.json({ success: true, filename, restoredFrom: revision, revision: restored.revision.revision });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (sendLockError(res, errorMessage)) {
+            return;
+        }
+        if (errorMessage === "Revision not found") {
+            return res.status(404).json({ error: "Revision not found" });
+        }
+        if (errorMessage.includes("already exists")) {
+            return res.status(409).json({ error: errorMessage });
+        }
+        const errorStack = error instanceof Error ? error.stack : undefined;
+        await logAction("ERROR", {
+            endpoint: req.path,
+            method: req.method,
+            filename: req.params.filename,
+            error: errorMessage,
+            stack: process.env.NODE_ENV === "development" ? errorStack : undefined
+        });
+
+        console.error("Error restoring publisher:", errorMessage);
+        res.status(500).json({
+            error: "Failed to restore publisher config",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// API endpoint to rename a config file and/or change its publisherId: { filename?, publisherId? }
+// The list entry and revision history move along, the new publisherId must be unused and
+// the old filename redirects to the new one for REDIRECT_GRACE_DAYS.
+app.post("/api/publisher/:filename/rename", async (req: express.Request, res: express.Response) => {
+    try {
+        const { filename } = req.params;
+
+        if (!validateFilename(filename)) {
+            return res.status(400).json({ error: "Invalid filename" });
+        }
+        const newFilename = req.body?.filename ?? filename;
+        if (typeof newFilename !== "string" || !validateFilename(newFilename)) {
+            return res.status(400).json({ error: "filename must be a valid config filename (letters, digits, - and _, ending in .json)" });
+        }
+        const newPublisherId = req.body?.publisherId;
+        if (newPublisherId !== undefined && (typeof newPublisherId !== "string" || newPublisherId.trim() === "")) {
+            return res.status(400).json({ error: "publisherId must be a non-empty string" });
+        }
+
+        const stored = await repository.get(filename);
+        if (!stored) {
+            return res.status(404).json({ error: "Publisher config not found" });
+        }
+        const target = { filename: newFilename, publisherId: newPublisherId ?? stored.config.publisherId };
+        if (target.filename === filename && target.publisherId === stored.config.publisherId) {
+            return res.status(400).json({ error: "Nothing to rename: filename and publisherId are unchanged" });
+        }
+
+        const principal: Principal = res.locals.principal;
+        if (!inScope(principal, { file: target.filename, publisherId: target.publisherId, tags: stored.config.tags })) {
+            return res.status(403).json({ error: "Forbidden", reason: `No access to publisher ${target.filename}` });
+        }
+
+        const saved = await repository.rename(filename, target, { actor: getActor(req, res), ifMatch: ifMatchHeader(req) });
+        const redirect = target.filename === filename ? null : await addRedirect(filename, target.filename);
+        if (target.filename !== filename) {
+            await moveDraft(filename, target.filename);
+        }
+        removeIndexedPublisher(filename);
+        upsertIndexedPublisher(summarizePublisher(saved.item, JSON.parse(saved.content)));
+
+        const from = { filename, publisherId: stored.config.publisherId };
+        await logAction("RENAME_PUBLISHER", { from, to: target });
+        await recordPublisherChange("RENAME_PUBLISHER", {
+            publisherId: saved.item.id,
+            filename: target.filename,
+            before: saved.previousContent,
+            after: saved.content,
+            item: saved.item,
+            details: { from, to: target },
+            previousFilename: target.filename === filename ? undefined : filename
+        });
+
+        res.set("ETag", computeEtag(saved.content));
+        res.json({
+            success: true,
+            filename: target.filename,
+            publisherId: target.publisherId,
+            ...(redirect && { redirect: { from: redirect.from, expiresAt: redirect.expiresAt } })
+        });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (sendLockError(res, errorMessage)) {
+            return;
+        }
+        if (errorMessage === "Publisher config not found") {
+            return res.status(404).json({ error: errorMessage });
+        }
+        if (errorMessage === "Precondition failed") {
+            return res.status(412).json({ error: "Publisher config was modified by someone else, reload and try again" });
+        }
+        if (errorMessage.includes("already exists")) {
+            return res.status(409).json({ error: errorMessage });
+        }
+        await logAction("ERROR", { endpoint: req.path, method: req.method, filename: req.params.filename, error: errorMessage });
+        console.error("Error renaming publisher:", errorMessage);
+        res.status(500).json({
+            error: "Failed to rename publisher config",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// Resolve a diff operand: "file.json" (current content) or "file.json@<revision>".
+// Operands outside the scope of a publisher-scoped principal are reported as not found.
+async function readConfigRef(ref: unknown, principal: Principal): Promise<PublisherConfig> {
+    if (typeof ref !== "string") {
+        throw new Error("Invalid reference");
+    }
+
+    const [filename, revisionPart, ...rest] = ref.split("@");
+    if (rest.length > 0 || !validateFilename(filename)) {
+        throw new Error("Invalid reference");
+    }
+
+    if (revisionPart === undefined) {
+        const stored = await repository.get(filename);
+        if (!stored || !inScope(principal, { file: filename, publisherId: stored.config.publisherId, tags: stored.config.tags })) {
+            throw new Error(`Config "${ref}" not found`);
+        }
+        return stored.config;
+    }
+
+    const revision = Number(revisionPart);
+    if (!Number.isInteger(revision) || revision < 1) {
+        throw new Error("Invalid reference");
+    }
+
+    const entry = await repository.getRevision(filename, revision);
+    if (!entry || !inScope(principal, { file: filename, publisherId: entry.config.publisherId, tags: entry.config.tags })) {
+        throw new Error(`Config "${ref}" not found`);
+    }
+    return entry.config;
+}
+
+// API endpoint to diff two configs: revisions of one file or two different publishers
+// e.g. /api/diff?from=publisher-aurora.json@3&to=publisher-aurora.json
+app.get("/api/diff", async (req: express.Request, res: express.Response) => {
+    try {
+        const before = await readConfigRef(req.query.from, res.locals.principal);
+        const after = await readConfigRef(req.query.to, res.locals.principal);
+
+        res.json({ from: req.query.from, to: req.query.to, diff: diffPublisherConfigs(before, after) });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (errorMessage === "Invalid reference") {
+            return res.status(400).json({ error: "from and to must be a filename, optionally followed by @<revision>" });
+        }
+        if (errorMessage.includes("not found")) {
+            return res.status(404).json({ error: errorMessage });
+        }
+        await logAction("ERROR", {
+            endpoint: req.path,
+            method: req.method,
+            error: errorMessage
+        });
+
+        console.error("Error diffing configs:", errorMessage);
+        res.status(500).json({
+            error: "Failed to diff publisher configs",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// API endpoint to preview what saving the request body would change in the stored config
+app.post("/api/publisher/:filename/diff", async (req: express.Request, res: express.Response) => {
+    try {
+        const { filename } = req.params;
+
+        // The body is checked like a save, so only configs that could be saved are diffed
+        const check = await checkPublisherWrite(filename, req.body, "update");
+        if (!check.valid) {
+            return res.status(check.status).json({ error: check.error, errors: check.errors });
+        }
+
+        const current = await readConfigRef(filename, res.locals.principal);
+        res.json({ filename, diff: diffPublisherConfigs(current, req.body) });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (errorMessage.includes("not found")) {
+            return res.status(404).json({ error: "Publisher config not found" });
+        }
+        await logAction("ERROR", {
+            endpoint: req.path,
+            method: req.method,
+            filename: req.params.filename,
+            error: errorMessage
+        });
+
+        console.error("Error diffing publisher:", errorMessage);
+        res.status(500).json({
+            error: "Failed to diff publisher config",
+            ...(process.env.NODE_ENV === "development" && { details: errorMessage })
+        });
+    }
+});
+
+// Runtime bundles of every listed config, keyed by publisherId
+const runtimeCache = createRuntimeCache({
+    load: async () => {
+        const configs = await Promise.all((await repository.list()).map(async item => {
+            try {
+                return validateFilename(item.file) ? (await repository.get(item.file))?.config ?? null : null;
+            } catch {
+                // An unreadable config is not served
+                return null;
+            }
+        }));
+        return configs
+            .filter((config): config is PublisherConfig => config !== null && typeof config.publisherId === "string")
+            .map(config => ({ publisherId: config.publisherId, config }));
+    },
+    version: () => repository.version(),
+    // Bounds how long another instance's writes take to show up when the storage version cannot be read
+    ttlMs: Number(process.env.RUNTIME_CACHE_TTL_MS) || 30_000
+});
+
+// How long browsers and CDNs may reuse a runtime config (RUNTIME_MAX_AGE seconds)
+const RUNTIME_MAX_AGE = Number(process.env.RUNTIME_MAX_AGE) || 60;
+
+// Public, read-only runtime config of a publisher: isActive, pages and customCss, compressed
+// with brotli or gzip when accepted and answered with 304 when the client's copy is current.
+// Inactive publishers are served too, so the widget turns itself off.
+async function serveRuntimeConfig(req: express.Request, res: express.Response) {
+    try {
+        const bundle = await runtimeCache.get(req.params.publisherId);
+        if (!bundle) {
+            res.set("Cache-Control", "no-store");
+            return res.status(404).json({ error: "Publisher not found" });
+        }
+
+        const encoding = negotiateEncoding(req.get("Accept-Encoding"));
+        res.set({
+            "Cache-Control": `public, max-age=${RUNTIME_MAX_AGE}, stale-while-revalidate=${RUNTIME_MAX_AGE * 5}`,
+            ETag: bundle.etags[encoding],
+            Vary: "Accept-Encoding"
+        });
+        if (notModified(req.get("If-None-Match"), bundle)) {
+            return res.status(304).end();
+        }
+
+        res.type("application/json; charset=utf-8");
+        if (encoding !== "identity") {
+            res.set("Content-Encoding", encoding);
+        }
+        res.send(bundle.bodies[encoding]);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        await logAction("ERROR", { endpoint: req.path, method: req.method, error: errorMessage });
+        console.error("Error serving runtime config:", errorMessage);
+        res.set("Cache-Control", "no-store");
+        res.status(500).json({ error: "Failed to read publisher config" });
+    }
+}
+
+// Health check endpoint (public, no authentication required)
+app.get("/health", async (_req: express.Request, res: express.Response) => {
+    if (await repository.isAvailable()) {
+        res.json({
+            status: "ok",
+            timestamp: new Date().toISOString(),
+            uptime: process.uptime()
+        });
+    } else {
+        res.status(503).json({
+            status: "error",
+            message: "Storage not accessible"
+        });
+    }
+});
+
+// Error handler middleware
+app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    console.error("Error:", err);
+    res.status(500).json({
+        error: "Internal server error",
+        ...(process.env.NODE_ENV === "development" && { message: err.message })
+    });
+});
+
+// How often queued webhook deliveries are checked for due attempts
+const WEBHOOK_POLL_MS = Number(process.env.WEBHOOK_POLL_MS) || 5000;
+
+// Start the server once the storage is ready (e.g. writes interrupted by a crash rolled back)
+if (process.env.NODE_ENV !== "test") {
+    repository.init()
+        .then(() => {
+            app.listen(PORT, () => {
+                console.log(`Backend API server running at http://localhost:${PORT} (${repository.backend} storage)`);
+                console.log(`CORS enabled for: ${FRONTEND_URL}`);
+            });
+            // Send queued webhook events; every instance runs the worker, deliveries are claimed under a lock
+            setInterval(() => {
+                processWebhookDeliveries().catch(error => console.error("Failed to deliver webhooks:", error));
+            }, WEBHOOK_POLL_MS).unref();
+        })
+        .catch(error => {
+            console.error("Failed to initialize storage:", error);
+            process.exit(1);
+        });
 }
 
@@ -24,10 +24,76 @@ export interface PublisherConfig {
 }
 
 // Interface for Publisher List Item
+// Summary fields are optional: entries written before they existed lack them until reconciled
 export interface PublisherListItem {
   id: string;
   alias: string;
   file: string;
+  isActive?: boolean;
+  tags?: string[];
+  pageCount?: number;
+  updatedAt?: string;
+}
+
+// Kind of change that produced a config revision
+export type RevisionAction = "create" | "update" | "delete" | "restore" | "rename";
+
+// Metadata of a stored config revision (as returned by the revisions list)
+export interface PublisherRevisionSummary {
+  revision: number;
+  filename: string;
+  publisherId: string;
+  action: RevisionAction;
+  actor: string;
+  timestamp: string;
+}
+
+// Immutable snapshot of a publisher config at a given revision
+export interface PublisherRevision extends PublisherRevisionSummary {
+  config: PublisherConfig;
+}
+
+// Change of a single field between two configs (path uses dot/bracket notation)
+export interface FieldChange {
+  path: string;
+  type: "added" | "removed" | "changed";
+  before?: ConfigValue;
+  after?: ConfigValue;
 }
 
+// Change of a pages[] entry, matched by pageType
+export interface PageChange {
+  pageType: string;
+  type: "added" | "removed" | "changed";
+  before?: Page;
+  after?: Page;
+  fields?: FieldChange[];
+}
 
+// Line-level change inside customCss (line numbers are 1-based)
+export interface CssLineChange {
+  type: "added" | "removed";
+  line: number;
+  text: string;
+}
+
+// Field-level diff of two PublisherConfig documents
+export interface ConfigDiff {
+  changed: boolean;
+  fields: FieldChange[];
+  pages: PageChange[];
+  tags: { added: string[]; removed: string[] };
+  customCss: { before: string; after: string; lines?: CssLineChange[] } | null;
+}
+
+// Allowed value of a controlled vocabulary
+export interface VocabularyEntry {
+  value: string;
+  label: string;
+}
+
+// Admin-managed vocabularies for Page.pageType and Page.position (data/vocabularies.json)
+export interface Vocabularies {
+  pageTypes: VocabularyEntry[];
+  positions: VocabularyEntry[];
+}